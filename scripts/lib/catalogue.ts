@@ -0,0 +1,206 @@
+/**
+ * Release catalogue access for CLI commands
+ * Reads and writes release JSON files in src/lib/content/releases and filters them
+ */
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { Release } from '../../src/lib/content/schema';
+import type { ReleaseData } from './types';
+
+export const RELEASES_DIR = path.join(process.cwd(), 'src/lib/content/releases');
+export const STATIC_PATH = path.join(process.cwd(), 'static');
+
+/**
+ * Absolute file path of a public asset path (torrent paths are URL-encoded)
+ */
+export function toStaticPath(publicPath: string): string {
+    return path.join(STATIC_PATH, decodeURIComponent(publicPath));
+}
+
+export interface CatalogueEntry {
+    path: string;
+    release: Release;
+}
+
+export interface ReleaseFilters {
+    type?: string;      // media_type or special_type
+    year?: number;
+    group?: string;     // keyword in torrent names
+    since?: Date;
+    until?: Date;
+    title?: string;     // substring of any title
+}
+
+async function readReleaseDir(
+    extension: string,
+    read: (filePath: string) => Promise<Release | undefined>,
+    onError?: (file: string, error: unknown) => void
+): Promise<CatalogueEntry[]> {
+    let files: string[];
+    try {
+        files = await fs.readdir(RELEASES_DIR);
+    } catch {
+        return [];
+    }
+
+    const entries: CatalogueEntry[] = [];
+    for (const file of files) {
+        if (!file.endsWith(extension)) continue;
+        const filePath = path.join(RELEASES_DIR, file);
+        try {
+            const release = await read(filePath);
+            if (release) {
+                entries.push({ path: filePath, release });
+            }
+        } catch (e) {
+            onError?.(file, e);
+        }
+    }
+
+    return entries.sort(
+        (a, b) => new Date(b.release.date).getTime() - new Date(a.release.date).getTime()
+    );
+}
+
+/**
+ * Load every release file (newest first)
+ * Files that fail to parse are reported through onError and skipped
+ */
+export async function loadReleases(
+    onError?: (file: string, error: unknown) => void
+): Promise<CatalogueEntry[]> {
+    return readReleaseDir('.json', readRelease, onError);
+}
+
+/**
+ * Load legacy generated TypeScript release modules (pre-JSON storage)
+ */
+export async function loadLegacyReleases(
+    onError?: (file: string, error: unknown) => void
+): Promise<CatalogueEntry[]> {
+    return readReleaseDir('.ts', async (filePath) => (await import(filePath)).release, onError);
+}
+
+/**
+ * Read a single release file
+ */
+export async function readRelease(filePath: string): Promise<Release> {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8'));
+}
+
+/**
+ * Path of the data file for a slug
+ */
+export function getReleasePath(slug: string): string {
+    return path.join(RELEASES_DIR, `${slug}.json`);
+}
+
+/**
+ * Serialize a release for storage
+ */
+export function serializeRelease(release: Release): string {
+    return JSON.stringify(release, null, 4) + '\n';
+}
+
+/**
+ * Write a release to src/lib/content/releases/<slug>.json
+ * @returns The written file path
+ */
+export async function writeRelease(release: Release, filePath: string = getReleasePath(release.slug)): Promise<string> {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, serializeRelease(release), 'utf-8');
+    return filePath;
+}
+
+/**
+ * Convert a stored release's torrents, specs and links back into the CLI shape
+ * (inverse of toRelease for the fields the edit flow works on; files use { path } instead of { name })
+ */
+export function fromRelease(release: Release): Pick<ReleaseData, 'torrents' | 'specs' | 'links'> {
+    return {
+        torrents: release.torrents.map(t => ({
+            ...t,
+            files: t.files.map(f => typeof f === 'string' ? { path: f, size: 0 } : { path: f.name, size: f.size ?? 0 })
+        })),
+        specs: (release.specs ?? []).map(s => ({ title: s.title, content: s.content ?? '' })),
+        links: (release.links ?? {}) as Record<string, string>
+    };
+}
+
+/**
+ * Convert CLI release data into the stored Release shape
+ * Empty optional fields are dropped
+ */
+export function toRelease(data: ReleaseData): Release {
+    return {
+        slug: data.slug,
+        title: data.title,
+        title_en: data.title_en || undefined,
+        title_zh: data.title_zh || undefined,
+        aliases: data.aliases?.length ? data.aliases : undefined,
+        date: data.date,
+        tmdb_id: data.tmdb_id,
+        media_type: data.media_type,
+        special_type: data.special_type,
+        season: data.season || undefined,
+        badge_label: data.badge_label || undefined,
+        episode_range: data.episode_range,
+        is_complete: data.is_complete || undefined,
+        year: data.year,
+        overview_en: data.overview_en || undefined,
+        overview_zh: data.overview_zh || undefined,
+        genres: data.genres?.length ? data.genres : undefined,
+        runtime: data.runtime || undefined,
+        episode_count: data.episode_count || undefined,
+        original_title: data.original_title || undefined,
+        original_language: data.original_language || undefined,
+        studios: data.studios?.length ? data.studios : undefined,
+        poster: data.poster,
+        backdrop: data.backdrop || undefined,
+        torrents: data.torrents.map(t => ({
+            name: t.name,
+            display_name: t.display_name,
+            files: t.files.map(f => ({ name: f.path, size: f.size })),
+            mediainfo: t.mediainfo,
+            info_hash: t.info_hash,
+            info_hash_v2: t.info_hash_v2,
+            trackers: t.trackers?.length ? t.trackers : undefined,
+            torrent_file: t.torrent_file,
+            group: t.group
+        })),
+        specs: data.specs.length > 0 ? data.specs : undefined,
+        links: Object.keys(data.links).length > 0 ? data.links : undefined
+    };
+}
+
+/**
+ * Apply list filters (all given filters must match)
+ */
+export function filterReleases(releases: Release[], filters: ReleaseFilters): Release[] {
+    const type = filters.type?.toLowerCase();
+    const group = filters.group?.toLowerCase();
+    const title = filters.title?.toLowerCase();
+
+    return releases.filter((r) => {
+        if (type && r.media_type !== type && r.special_type !== type) return false;
+        if (filters.year && r.year !== filters.year) return false;
+        if (group && !r.torrents.some(t =>
+            t.name.toLowerCase().includes(group) || t.display_name.toLowerCase().includes(group)
+        )) return false;
+
+        const date = new Date(r.date);
+        if (filters.since && date < filters.since) return false;
+        if (filters.until && date > filters.until) return false;
+
+        if (title && ![r.title, r.title_en, r.title_zh].some(t => t?.toLowerCase().includes(title))) return false;
+
+        return true;
+    });
+}
+
+/**
+ * OG image path derived from the poster path (same rule as the release page)
+ */
+export function getOgPath(poster: string): string {
+    return poster.replace('.avif', '.jpg').replace('/posters/', '/og/');
+}
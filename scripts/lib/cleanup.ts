@@ -49,6 +49,13 @@ class TempFileManager {
         }
     }
 
+    /**
+     * Stop tracking a file without deleting it (it's no longer temporary)
+     */
+    keep(filePath: string) {
+        this.files.delete(filePath);
+    }
+
     /**
      * Cleanup all registered files (Async)
      */
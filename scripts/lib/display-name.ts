@@ -0,0 +1,66 @@
+/**
+ * Display name generation
+ * Builds "KWTR BD 1080p FLAC x265" from the torrent name and its MediaInfo
+ */
+import {
+    getAudioCodec,
+    getResolution,
+    type MediaInfoStructured
+} from '../../src/lib/utils/mediainfo-parser';
+import { detectGroup, getGroupByTag } from '../../src/lib/config/groups';
+
+const SOURCES: [RegExp, string][] = [
+    [/\b(?:BD|BDRip|BDMV|Blu-?ray|BDRemux)\b/i, 'BD'],
+    [/\bWEB(?:-?DL|-?Rip)?\b/i, 'WEB'],
+    [/\bDVD(?:Rip|9|5)?\b/i, 'DVD'],
+    [/\bHDTV(?:Rip)?\b/i, 'TV']
+];
+
+const ENCODERS = /^(x264|x265|SVT-AV1|rav1e|aomenc|libaom|NVEncC|QSVEncC|VCEEncC)\b/i;
+
+/**
+ * Group tag: the registry's short tag when known, else the raw "[Group]" prefix
+ */
+export function getGroupTag(torrentName: string, group?: string): string | undefined {
+    if (group !== undefined) return getGroupByTag(group)?.tag ?? (group || undefined);
+
+    return detectGroup(torrentName)?.tag ?? torrentName.match(/^\s*\[([^\]]+)\]/)?.[1].trim();
+}
+
+function getSource(torrentName: string, bdinfo: boolean): string | undefined {
+    if (bdinfo) return 'BD';
+    return SOURCES.find(([pattern]) => pattern.test(torrentName))?.[1];
+}
+
+/**
+ * Encoder from the writing library ("x265 - 3.5+1:..." -> "x265"), else the codec name
+ */
+function getEncoder(video: NonNullable<MediaInfoStructured['video']>[number] | undefined): string | undefined {
+    const library = video?.writing_library?.trim();
+    const encoder = library?.match(ENCODERS)?.[1];
+    if (encoder) return encoder;
+    return video?.format;
+}
+
+/**
+ * Generate a display name; parts that can't be determined are left out
+ * e.g. "KWTR BD 1080p FLAC x265", "TSKR WEB 1080p AAC SVT-AV1"
+ */
+export function generateDisplayName(
+    torrentName: string,
+    structured: MediaInfoStructured | null,
+    options: { bdinfo?: boolean; group?: string } = {}
+): string {
+    const video = structured?.video?.[0];
+    const resolution = getResolution(video?.width, video?.height)
+        || torrentName.match(/\b(2160p|1080p|720p|576p|480p|4K)\b/i)?.[1];
+    const audio = [...new Set((structured?.audio ?? []).map(getAudioCodec).filter(Boolean))];
+
+    return [
+        getGroupTag(torrentName, options.group),
+        getSource(torrentName, options.bdinfo ?? false),
+        resolution,
+        audio.slice(0, 2).join('+') || undefined,
+        getEncoder(video)
+    ].filter(Boolean).join(' ');
+}
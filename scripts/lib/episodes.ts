@@ -0,0 +1,60 @@
+/**
+ * Episode detection from torrent file lists
+ * Used to check a release against TMDB's episode count and suggest a range / completeness
+ */
+import path from 'node:path';
+import { getVideoFiles } from './mediainfo';
+import type { EpisodeRange } from '../../src/lib/content/schema';
+import type { TorrentEntry } from './types';
+
+// Creditless OP/ED, previews, menus etc. aren't episodes
+const EXTRA_PATTERN = /\b(NC(OP|ED)\w*|OP\d*|ED\d*|PV\d*|CM\d*|Menu\d*|Preview|Trailer|Teaser|Extras?|SPs?|Specials?|Bonus)\b/i;
+
+// "S01E13", "E13" / "EP13", "[Group] Title - 13 [1080p]", "第13話"
+const EPISODE_PATTERNS = [
+    /S\d{1,2}E(\d{1,4})/i,
+    /\bE[Pp]?(\d{1,4})\b/,
+    /\s-\s(\d{1,4})(?:v\d)?(?=[\s.[(]|$)/,
+    /第(\d{1,4})[話话集]/
+];
+
+/**
+ * Episode number of a video file, or undefined for extras / unrecognized names
+ * Only the file name and its direct folder mark extras: higher folders ("Show + SPs [BDRip]") name the whole release
+ */
+export function getEpisodeNumber(filePath: string): number | undefined {
+    if (filePath.split('/').slice(-2).some((part) => EXTRA_PATTERN.test(part))) return undefined;
+
+    const name = path.basename(filePath, path.extname(filePath));
+    for (const pattern of EPISODE_PATTERNS) {
+        const match = name.match(pattern);
+        if (match) return parseInt(match[1]);
+    }
+    return undefined;
+}
+
+/**
+ * Distinct episode numbers found in the video files of the release's torrents (sorted)
+ * Torrents usually carry the same episodes in different encodes, so they're merged
+ */
+export function getEpisodeNumbers(torrents: Pick<TorrentEntry, 'files'>[]): number[] {
+    const episodes = new Set<number>();
+    for (const torrent of torrents) {
+        for (const file of getVideoFiles(torrent.files)) {
+            const episode = getEpisodeNumber(file.path);
+            if (episode !== undefined) episodes.add(episode);
+        }
+    }
+    return [...episodes].sort((a, b) => a - b);
+}
+
+/**
+ * "13-24" or "5" -> range; undefined for anything else
+ */
+export function parseEpisodeRange(input: string): EpisodeRange | undefined {
+    const match = input.trim().match(/^E?(\d+)(?:\s*-\s*E?(\d+))?$/i);
+    if (!match) return undefined;
+    const start = parseInt(match[1]);
+    const end = match[2] ? parseInt(match[2]) : start;
+    return start <= end ? { start, end } : undefined;
+}
@@ -0,0 +1,88 @@
+/**
+ * Orphaned asset detection
+ * Finds files under static/ that no release references anymore
+ */
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { Release } from '../../src/lib/content/schema';
+import { getOgPath, STATIC_PATH } from './catalogue';
+
+/** Asset directories managed by the CLI (relative to static/) */
+const ASSET_DIRS = ['posters', 'og', 'backdrops', 'mediainfo', 'torrents'];
+
+export interface OrphanedAsset {
+    path: string;   // Absolute path
+    size: number;
+}
+
+/**
+ * Public paths (e.g. "/posters/abc.avif") referenced by a release
+ */
+function getReferencedAssets(release: Release): string[] {
+    const assets = [release.poster, getOgPath(release.poster)];
+    if (release.backdrop) {
+        assets.push(release.backdrop);
+    }
+    for (const torrent of release.torrents) {
+        for (const mi of torrent.mediainfo) {
+            assets.push(`/mediainfo/${mi.raw_hash}`);
+        }
+        if (torrent.torrent_file) {
+            assets.push(decodeURIComponent(torrent.torrent_file));
+        }
+    }
+    return assets;
+}
+
+/**
+ * List files in the asset directories that none of the given releases reference
+ */
+export async function findOrphanedAssets(releases: Release[]): Promise<OrphanedAsset[]> {
+    const referenced = new Set(releases.flatMap(getReferencedAssets));
+    const orphans: OrphanedAsset[] = [];
+
+    for (const dir of ASSET_DIRS) {
+        let files: string[];
+        try {
+            // torrents/ is nested per slug (torrents/<slug>/<file>.torrent)
+            files = await fs.readdir(path.join(STATIC_PATH, dir), { recursive: true });
+        } catch {
+            continue;
+        }
+
+        for (const file of files) {
+            if (path.basename(file).startsWith('.')) continue;
+            const publicPath = `/${dir}/${file.split(path.sep).join('/')}`;
+            if (referenced.has(publicPath)) continue;
+
+            const absPath = path.join(STATIC_PATH, dir, file);
+            const stat = await fs.stat(absPath);
+            if (!stat.isFile()) continue;
+            orphans.push({ path: absPath, size: stat.size });
+        }
+    }
+
+    return orphans;
+}
+
+/**
+ * Remove per-release asset directories left empty after deleting orphans
+ */
+export async function removeEmptyAssetDirs(): Promise<void> {
+    for (const dir of ASSET_DIRS) {
+        let entries;
+        try {
+            entries = await fs.readdir(path.join(STATIC_PATH, dir), { withFileTypes: true });
+        } catch {
+            continue;
+        }
+
+        for (const entry of entries) {
+            if (!entry.isDirectory()) continue;
+            const subdir = path.join(STATIC_PATH, dir, entry.name);
+            if ((await fs.readdir(subdir)).length === 0) {
+                await fs.rmdir(subdir);
+            }
+        }
+    }
+}
@@ -0,0 +1,99 @@
+/**
+ * Shared HTTP client for the CLI
+ * Timeouts, exponential backoff (honouring Retry-After) and classified errors
+ */
+
+export type HttpErrorKind = 'auth' | 'not_found' | 'rate_limited' | 'network' | 'http';
+
+export class HttpError extends Error {
+    constructor(
+        public readonly kind: HttpErrorKind,
+        message: string,
+        public readonly status?: number
+    ) {
+        super(message);
+        this.name = 'HttpError';
+    }
+}
+
+export interface RequestOptions extends RequestInit {
+    retries?: number;       // Extra attempts after the first (default: 3)
+    timeoutMs?: number;     // Per attempt (default: 15s)
+    baseDelayMs?: number;   // First backoff delay, doubled per attempt (default: 500ms)
+}
+
+const DEFAULT_RETRIES = 3;
+const DEFAULT_TIMEOUT_MS = 15_000;
+const DEFAULT_BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 30_000;
+
+// Worth another attempt: rate limiting and transient server errors
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504]);
+
+function classifyStatus(status: number): HttpErrorKind {
+    if (status === 401 || status === 403) return 'auth';
+    if (status === 404) return 'not_found';
+    if (status === 429) return 'rate_limited';
+    return 'http';
+}
+
+/**
+ * Retry-After as milliseconds (delta-seconds or HTTP date), undefined when absent / unparsable
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+    if (!header) return undefined;
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function backoff(attempt: number, baseDelayMs: number): number {
+    // Full jitter keeps parallel requests (e.g. en + zh lookups) from retrying in lockstep
+    return Math.random() * Math.min(MAX_DELAY_MS, baseDelayMs * 2 ** attempt);
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * fetch() with a timeout and retries; resolves only with an ok response
+ *
+ * @throws {HttpError} Once retries are exhausted, or immediately for non-retryable statuses
+ */
+export async function request(url: string, options: RequestOptions = {}): Promise<Response> {
+    const {
+        retries = DEFAULT_RETRIES,
+        timeoutMs = DEFAULT_TIMEOUT_MS,
+        baseDelayMs = DEFAULT_BASE_DELAY_MS,
+        ...init
+    } = options;
+
+    for (let attempt = 0; ; attempt++) {
+        let error: HttpError;
+        let delay = backoff(attempt, baseDelayMs);
+
+        try {
+            const response = await fetch(url, { ...init, signal: AbortSignal.timeout(timeoutMs) });
+            if (response.ok) return response;
+
+            error = new HttpError(
+                classifyStatus(response.status),
+                `HTTP ${response.status} ${response.statusText}`.trim(),
+                response.status
+            );
+            if (!RETRYABLE_STATUS.has(response.status)) throw error;
+
+            const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+            if (retryAfter !== undefined) delay = Math.min(retryAfter, MAX_DELAY_MS);
+        } catch (e) {
+            if (e instanceof HttpError) throw e;
+            const reason = e instanceof Error && e.name === 'TimeoutError'
+                ? `timed out after ${timeoutMs / 1000}s`
+                : e instanceof Error ? e.message : String(e);
+            error = new HttpError('network', reason);
+        }
+
+        if (attempt >= retries) throw error;
+        await sleep(delay);
+    }
+}
@@ -4,13 +4,27 @@
 import sharp from 'sharp';
 import fs from 'node:fs/promises';
 import path from 'node:path';
+import { request } from './http';
 
 const POSTER_WIDTH = 500;
 const POSTER_QUALITY = 80;
 const OG_WIDTH = 600;
 const OG_QUALITY = 80;
+const BACKDROP_WIDTH = 1280;
+const BACKDROP_QUALITY = 70;
 const OUTPUT_DIR = 'static/posters';
 const OG_DIR = 'static/og';
+const BACKDROP_DIR = 'static/backdrops';
+
+async function readImage(source: string): Promise<Buffer | ArrayBuffer> {
+    // Check if source is URL or local path
+    if (source.startsWith('http')) {
+        const response = await request(source);
+        return response.arrayBuffer();
+    }
+    // Assume local path
+    return fs.readFile(source);
+}
 
 /**
  * Process a poster image from a URL or local path
@@ -23,19 +37,7 @@ const OG_DIR = 'static/og';
  */
 export async function processPoster(source: string, slug: string): Promise<string> {
     try {
-        let buffer: Buffer | ArrayBuffer;
-
-        // Check if source is URL or local path
-        if (source.startsWith('http')) {
-            const response = await fetch(source);
-            if (!response.ok) {
-                throw new Error(`Failed to download image: ${response.statusText}`);
-            }
-            buffer = await response.arrayBuffer();
-        } else {
-            // Assume local path
-            buffer = await fs.readFile(source);
-        }
+        const buffer = await readImage(source);
 
         // Ensure output directories exist
         await fs.mkdir(OUTPUT_DIR, { recursive: true });
@@ -82,3 +84,30 @@ export async function processPoster(source: string, slug: string): Promise<strin
         throw error;
     }
 }
+
+/**
+ * Process a backdrop image from a URL or local path
+ * Resized to a header-friendly width and saved as AVIF in static/backdrops
+ *
+ * @returns The relative path to the saved image (e.g., '/backdrops/slug.avif')
+ */
+export async function processBackdrop(source: string, slug: string): Promise<string> {
+    const buffer = await readImage(source);
+    await fs.mkdir(BACKDROP_DIR, { recursive: true });
+
+    const filename = `${slug}.avif`;
+    const outputPath = path.join(BACKDROP_DIR, filename);
+
+    await sharp(buffer)
+        .resize(BACKDROP_WIDTH, null, {
+            withoutEnlargement: true
+        })
+        .avif({
+            quality: BACKDROP_QUALITY,
+            effort: 4
+        })
+        .toFile(outputPath);
+
+    console.log(`[+] Backdrop saved to ${outputPath}`);
+    return `/backdrops/${filename}`;
+}
@@ -48,3 +48,13 @@ export function isValidUrl(url: string): boolean {
 export function getSupportedPlatforms(): string[] {
     return Object.keys(SUPPORTED_PLATFORMS);
 }
+
+/**
+ * Links for IDs a metadata source already knows (e.g. TMDB external IDs)
+ */
+export function buildExternalLinks(ids: { imdb_id?: string; tvdb_id?: number }): Record<string, string> {
+    const links: Record<string, string> = {};
+    if (ids.imdb_id) links.imdb = `https://www.imdb.com/title/${ids.imdb_id}/`;
+    if (ids.tvdb_id) links.tvdb = `https://thetvdb.com/dereferrer/series/${ids.tvdb_id}`;
+    return links;
+}
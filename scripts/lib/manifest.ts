@@ -0,0 +1,184 @@
+/**
+ * Release manifest loader for non-interactive `create --from`
+ * Accepts YAML or JSON; relative paths resolve against the manifest's directory
+ */
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { z } from 'zod';
+import { parse as parseYaml } from 'yaml';
+import { detectPlatform, isValidUrl } from './links';
+import { getGroupByTag } from '../../src/lib/config/groups';
+import { parseEpisodeRange } from './episodes';
+
+const ManifestTorrentSchema = z.object({
+    path: z.string().min(1),
+    display_name: z.string().min(1).optional(),
+    // Release group tag; detected from the torrent name when omitted
+    group: z.string().refine(tag => !!getGroupByTag(tag), 'Unknown release group').optional(),
+    mediainfo: z.array(z.string().min(1)).min(1),
+    // Copy the .torrent to static/torrents/<slug>/ (announce passkeys stripped by default)
+    publish: z.boolean().default(false),
+    strip_passkeys: z.boolean().default(true)
+});
+
+export const ReleaseManifestSchema = z.object({
+    // TMDB lookup: 12345, "12345", "tv/12345" or "movie/12345"
+    tmdb: z.union([z.number().int().positive(), z.string().regex(/^(?:(movie|tv)\/)?\d+$/)]).optional(),
+
+    // Manual metadata (required without tmdb, overrides TMDB values otherwise)
+    title_en: z.string().min(1).optional(),
+    title_zh: z.string().min(1).optional(),
+    year: z.number().int().min(1800).max(2100).optional(),
+    media_type: z.enum(['movie', 'tv']).optional(),
+
+    // Refinements (same as promptRefineMetadata)
+    special_type: z.enum(['tva', 'ova', 'ona', 'special']).optional(),
+    season: z.number().int().positive().optional(),
+    // Partial releases: "13-24" (or a single episode "5")
+    episodes: z.string().refine(val => !!parseEpisodeRange(val), 'Use "13-24" or a single episode number').optional(),
+    badge_label: z.string().optional(),
+    is_complete: z.boolean().optional(),
+
+    poster: z.string().min(1),
+    torrents: z.array(ManifestTorrentSchema).min(1),
+    specs: z.string().min(1),
+    links: z.array(z.string()).optional()
+}).superRefine((data, ctx) => {
+    if (data.tmdb !== undefined) return;
+    for (const key of ['title_en', 'title_zh', 'year', 'media_type'] as const) {
+        if (data[key] === undefined) {
+            ctx.addIssue({ code: 'custom', path: [key], message: 'Required when tmdb is not set' });
+        }
+    }
+    // Also run when other fields failed, so every problem is reported at once
+}, { when: (payload) => typeof payload.value === 'object' && payload.value !== null });
+
+export type ReleaseManifest = z.infer<typeof ReleaseManifestSchema>;
+
+/**
+ * Thrown when a manifest cannot be used; carries every problem found
+ */
+export class ManifestError extends Error {
+    constructor(public readonly file: string, public readonly issues: string[]) {
+        super(`Invalid manifest ${file}:\n${issues.map(i => `  - ${i}`).join('\n')}`);
+        this.name = 'ManifestError';
+    }
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+    try {
+        const stat = await fs.stat(filePath);
+        return stat.isFile();
+    } catch {
+        return false;
+    }
+}
+
+/** The parts of a manifest that reference files and links, before schema validation */
+interface RawReferences {
+    poster?: unknown;
+    torrents?: unknown;
+    specs?: unknown;
+    links?: unknown;
+}
+
+const isPath = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+
+/**
+ * Check referenced files and links on the raw manifest, so they're reported
+ * alongside schema errors (fields that didn't parse are skipped)
+ */
+async function checkReferences(raw: RawReferences, resolve: (p: string) => string): Promise<string[]> {
+    const issues: string[] = [];
+
+    if (isPath(raw.poster) && !raw.poster.startsWith('http')) {
+        const poster = resolve(raw.poster);
+        if (!await fileExists(poster)) issues.push(`poster: File not found (${poster})`);
+    }
+
+    for (const [i, torrent] of (Array.isArray(raw.torrents) ? raw.torrents : []).entries()) {
+        if (typeof torrent !== 'object' || torrent === null) continue;
+        const { path: torrentPath, mediainfo } = torrent as { path?: unknown; mediainfo?: unknown };
+
+        if (isPath(torrentPath)) {
+            const resolved = resolve(torrentPath);
+            if (!resolved.endsWith('.torrent')) {
+                issues.push(`torrents.${i}.path: Must be a .torrent file`);
+            } else if (!await fileExists(resolved)) {
+                issues.push(`torrents.${i}.path: File not found (${resolved})`);
+            }
+        }
+
+        for (const [j, miPath] of (Array.isArray(mediainfo) ? mediainfo : []).entries()) {
+            if (!isPath(miPath)) continue;
+            const resolved = resolve(miPath);
+            if (!await fileExists(resolved)) issues.push(`torrents.${i}.mediainfo.${j}: File not found (${resolved})`);
+        }
+    }
+
+    if (isPath(raw.specs)) {
+        const specs = resolve(raw.specs);
+        if (!await fileExists(specs)) issues.push(`specs: File not found (${specs})`);
+    }
+
+    for (const [i, url] of (Array.isArray(raw.links) ? raw.links : []).entries()) {
+        if (typeof url !== 'string') continue;
+        if (!isValidUrl(url)) {
+            issues.push(`links.${i}: Invalid URL (${url})`);
+        } else if (!detectPlatform(url)) {
+            issues.push(`links.${i}: Unknown platform (${url})`);
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Read, validate and resolve a release manifest.
+ * All file paths in the result are absolute; URLs are left untouched.
+ * Schema, file and link problems are reported together in one ManifestError.
+ */
+export async function loadManifest(manifestPath: string): Promise<ReleaseManifest> {
+    const absPath = path.resolve(manifestPath);
+    let raw: string;
+    try {
+        raw = await fs.readFile(absPath, 'utf-8');
+    } catch {
+        throw new ManifestError(manifestPath, ['File not found or unreadable']);
+    }
+
+    let data: unknown;
+    try {
+        data = /\.json$/i.test(absPath) ? JSON.parse(raw) : parseYaml(raw);
+    } catch (e) {
+        throw new ManifestError(manifestPath, [`Syntax error: ${e instanceof Error ? e.message : e}`]);
+    }
+
+    const baseDir = path.dirname(absPath);
+    const resolve = (p: string) => path.resolve(baseDir, p);
+
+    const result = ReleaseManifestSchema.safeParse(data);
+    const issues: string[] = result.success ? [] : result.error.issues.map(issue => {
+        const field = issue.path.join('.') || '(root)';
+        return `${field}: ${issue.message}`;
+    });
+    if (typeof data === 'object' && data !== null) {
+        issues.push(...await checkReferences(data as RawReferences, resolve));
+    }
+
+    if (!result.success || issues.length > 0) {
+        throw new ManifestError(manifestPath, issues);
+    }
+
+    const manifest = result.data;
+    if (!manifest.poster.startsWith('http')) {
+        manifest.poster = resolve(manifest.poster);
+    }
+    for (const torrent of manifest.torrents) {
+        torrent.path = resolve(torrent.path);
+        torrent.mediainfo = torrent.mediainfo.map(resolve);
+    }
+    manifest.specs = resolve(manifest.specs);
+
+    return manifest;
+}
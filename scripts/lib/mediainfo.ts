@@ -0,0 +1,102 @@
+/**
+ * MediaInfo detection from local torrent data
+ * Reads pre-generated dumps (.txt, .json, .xml) next to the video files or runs the mediainfo binary
+ */
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { execFile as execFileCb } from 'node:child_process';
+import { promisify } from 'node:util';
+import { resolveContentRoot } from './verify';
+import type { ParsedTorrent } from './torrent';
+import type { TorrentFile } from './types';
+
+const execFile = promisify(execFileCb);
+
+const VIDEO_EXTENSIONS = new Set(['.mkv', '.mp4', '.m2ts', '.ts', '.avi', '.mov', '.m4v', '.webm', '.wmv', '.flv']);
+
+export interface DetectedMediaInfo {
+    file: TorrentFile;
+    content: string;
+    source: 'dump' | 'mediainfo';
+}
+
+/**
+ * Video files in a torrent, in torrent order
+ */
+export function getVideoFiles(files: TorrentFile[]): TorrentFile[] {
+    return files.filter(f => VIDEO_EXTENSIONS.has(path.extname(f.path).toLowerCase()));
+}
+
+let binaryCheck: Promise<boolean> | undefined;
+
+/**
+ * Whether the mediainfo CLI is available on PATH
+ * Checked once per run (each check spawns a process)
+ */
+export function hasMediaInfoBinary(): Promise<boolean> {
+    binaryCheck ??= execFile('mediainfo', ['--Version']).then(() => true, () => false);
+    return binaryCheck;
+}
+
+async function readDump(videoPath: string): Promise<string | null> {
+    // "Episode 01.mkv.txt" or "Episode 01.txt" (JSON / XML dumps work too)
+    const stem = videoPath.slice(0, -path.extname(videoPath).length);
+    const candidates = ['.txt', '.json', '.xml'].flatMap(ext => [`${videoPath}${ext}`, `${stem}${ext}`]);
+    for (const candidate of candidates) {
+        try {
+            const content = await fs.readFile(candidate, 'utf-8');
+            if (content.trim()) return content;
+        } catch {
+            // Try next candidate
+        }
+    }
+    return null;
+}
+
+async function runMediaInfo(videoPath: string): Promise<string | null> {
+    try {
+        // Run from the file's folder so "Complete name" doesn't leak the local path
+        const { stdout } = await execFile('mediainfo', [path.basename(videoPath)], {
+            cwd: path.dirname(videoPath),
+            maxBuffer: 16 * 1024 * 1024
+        });
+        return stdout.trim() ? stdout : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Collect MediaInfo for the given torrent files from the local data folder
+ * Dumps take precedence over the binary; files with neither are reported through onMissing
+ */
+export async function detectMediaInfo(
+    torrent: ParsedTorrent,
+    files: TorrentFile[],
+    dataDir: string,
+    onMissing?: (file: TorrentFile) => void
+): Promise<DetectedMediaInfo[]> {
+    const single = torrent.files.length === 1 && torrent.files[0].path === torrent.name;
+    const root = await resolveContentRoot(path.resolve(dataDir), torrent.name, single);
+    const useBinary = await hasMediaInfoBinary();
+    const results: DetectedMediaInfo[] = [];
+
+    for (const file of files) {
+        const videoPath = single ? root : path.join(root, file.path);
+
+        const dump = await readDump(videoPath);
+        if (dump) {
+            results.push({ file, content: dump, source: 'dump' });
+            continue;
+        }
+
+        const output = useBinary ? await runMediaInfo(videoPath) : null;
+        if (output) {
+            results.push({ file, content: output, source: 'mediainfo' });
+        } else {
+            onMissing?.(file);
+        }
+    }
+
+    return results;
+}
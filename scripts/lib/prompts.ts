@@ -1,8 +1,12 @@
 /**
  * Interactive Prompts (Simplified, no emoji)
  */
-import { input, select, confirm, editor } from '@inquirer/prompts';
-import type { ReleaseData } from './types';
+import { input, select, confirm, editor, checkbox } from '@inquirer/prompts';
+import { groups } from '../../src/lib/config/groups';
+import type { ReleaseData, TorrentFile } from './types';
+import type { TMDBSeason } from './tmdb';
+import type { EpisodeRange } from '../../src/lib/content/schema';
+import { parseEpisodeRange } from './episodes';
 
 /**
  * Prompt for TMDB ID (optional, empty = search mode)
@@ -102,11 +106,12 @@ export async function promptPoster(): Promise<string> {
 
 /**
  * Prompt for torrent display name (for Telegram)
+ * The suggestion is generated from the torrent name and its MediaInfo
  */
-export async function promptDisplayName(torrentName: string): Promise<string> {
+export async function promptDisplayName(suggested: string): Promise<string> {
     return input({
         message: 'Display name for Telegram (e.g. KWTR BD 1080p FLAC x265):',
-        default: torrentName.substring(0, 50),
+        default: suggested,
         validate: (val) => !!val.trim() || 'Display name is required'
     });
 }
@@ -148,6 +153,35 @@ export async function promptTorrentPath(): Promise<string> {
     return raw.trim().replace(/\\(.)/g, '$1');
 }
 
+/**
+ * Prompt whether to publish the .torrent file on the site
+ */
+export async function promptPublishTorrent(): Promise<'strip' | 'keep' | 'skip'> {
+    return select({
+        message: 'Publish .torrent file on the site?',
+        choices: [
+            { name: 'Yes, strip tracker passkeys', value: 'strip' as const },
+            { name: 'Yes, keep announce URLs as-is (public trackers only)', value: 'keep' as const },
+            { name: 'No', value: 'skip' as const }
+        ]
+    });
+}
+
+/**
+ * Prompt for the torrent's release group (defaults to the detected one)
+ * Returns the group tag, or '' for none
+ */
+export async function promptGroup(detected?: string): Promise<string> {
+    return select({
+        message: 'Release group:',
+        default: detected ?? '',
+        choices: [
+            ...groups.map(g => ({ name: `${g.tag} (${g.name})`, value: g.tag })),
+            { name: 'None / other', value: '' }
+        ]
+    });
+}
+
 /**
  * Prompt to add more items
  */
@@ -163,7 +197,55 @@ export async function promptAddMore(itemType: string): Promise<boolean> {
  */
 export async function promptMediaInfo(): Promise<string> {
     return editor({
-        message: 'Paste MediaInfo content:'
+        message: 'Paste MediaInfo content (or a BDInfo report):'
+    });
+}
+
+/**
+ * Prompt for where MediaInfo comes from
+ */
+export async function promptMediaInfoSource(): Promise<'folder' | 'paste'> {
+    return select({
+        message: 'MediaInfo source:',
+        choices: [
+            { name: 'Local data folder (mediainfo / .txt dumps)', value: 'folder' as const },
+            { name: 'Paste manually', value: 'paste' as const }
+        ]
+    });
+}
+
+/**
+ * Prompt for the local folder holding the torrent's data
+ */
+export async function promptDataFolder(): Promise<string> {
+    const raw = await input({
+        message: 'Data folder (download directory or the torrent folder itself):',
+        validate: (val) => !!val.trim() || 'Path is required'
+    });
+    return raw.trim().replace(/\\(.)/g, '$1');
+}
+
+/**
+ * Prompt for which video files to take MediaInfo from
+ */
+export async function promptVideoFiles(files: TorrentFile[]): Promise<TorrentFile[]> {
+    if (files.length <= 1) return files;
+
+    const scope = await select({
+        message: `Take MediaInfo from (${files.length} video files):`,
+        choices: [
+            { name: 'First video file only', value: 'first' },
+            { name: 'All video files', value: 'all' },
+            { name: 'Choose files', value: 'pick' }
+        ]
+    });
+    if (scope === 'first') return files.slice(0, 1);
+    if (scope === 'all') return files;
+
+    return checkbox({
+        message: 'Select video files:',
+        choices: files.map(f => ({ name: f.path, value: f })),
+        required: true
     });
 }
 
@@ -228,12 +310,11 @@ export async function promptFinalConfirm(): Promise<boolean> {
  */
 export async function promptRefineMetadata(
     initialType: 'movie' | 'tv',
-    knownSeasonCount?: number
+    seasons?: TMDBSeason[]
 ): Promise<{
     special_type?: 'tva' | 'ova' | 'ona' | 'special';
     season?: number;
     badge_label?: string;
-    is_complete?: boolean;
 }> {
     let special_type: 'tva' | 'ova' | 'ona' | 'special' | undefined;
 
@@ -255,17 +336,30 @@ export async function promptRefineMetadata(
     }
 
     let season: number | undefined;
-    let is_complete: boolean | undefined;
 
     // 2. Season Logic
     // Only ask for season if TMDB type is TV (not for movies, even OVA/special)
-    if (initialType === 'tv') {
-        const seasonMsg = knownSeasonCount
-            ? `Season Number (0 for none/single) [TMDB has ${knownSeasonCount}]:`
-            : 'Season Number (0 for none/single):';
-
+    // Completeness is asked later, once the torrents are known (promptEpisodes)
+    const regularSeasons = seasons?.filter(s => s.season_number > 0) ?? [];
+    if (initialType === 'tv' && regularSeasons.length > 0) {
+        // Pick from TMDB's list so the number always exists
+        const seasonVal = await select({
+            message: 'Season:',
+            default: 1,
+            choices: [
+                ...regularSeasons.map(s => ({
+                    name: `S${s.season_number.toString().padStart(2, '0')} - ${s.name} (${s.episode_count} episodes${s.air_date ? `, ${s.air_date.substring(0, 4)}` : ''})`,
+                    value: s.season_number
+                })),
+                { name: 'None / single season', value: 0 }
+            ]
+        });
+        if (seasonVal > 0) {
+            season = seasonVal;
+        }
+    } else if (initialType === 'tv') {
         const seasonStr = await input({
-            message: seasonMsg,
+            message: 'Season Number (0 for none/single):',
             default: '1',
             validate: (val) => !isNaN(parseInt(val)) || 'Must be a number'
         });
@@ -273,11 +367,6 @@ export async function promptRefineMetadata(
         if (seasonVal > 0) {
             season = seasonVal;
         }
-
-        is_complete = await confirm({
-            message: 'Is this release complete? (Fin Badge)',
-            default: false
-        });
     }
 
     const badge_label = await input({
@@ -287,11 +376,64 @@ export async function promptRefineMetadata(
     return {
         special_type,
         season,
-        is_complete,
         badge_label: badge_label.trim() || undefined
     };
 }
 
+/**
+ * Prompt for the episode range and completeness of a TV release
+ * Defaults come from comparing TMDB's episode count with the episodes found in the torrents
+ *
+ * @param total - Episodes in the season according to TMDB (undefined when unknown)
+ * @param found - Episode numbers detected in the torrents' video files
+ */
+export async function promptEpisodes(
+    total: number | undefined,
+    found: number[],
+    current: { episode_range?: EpisodeRange; is_complete?: boolean } = {}
+): Promise<{ episode_range?: EpisodeRange; is_complete?: boolean }> {
+    const first = found[0];
+    const last = found[found.length - 1];
+
+    if (total !== undefined) {
+        console.log(`[i] TMDB lists ${total} episode(s); torrents contain ${found.length}${found.length ? ` (E${first}-E${last})` : ''}`);
+    } else if (found.length) {
+        console.log(`[i] Torrents contain ${found.length} episode(s) (E${first}-E${last})`);
+    }
+
+    // A range is only worth storing when the release doesn't start at episode 1 or stops short of the season
+    // (skipped when the files use absolute numbering past TMDB's season length)
+    const partial = found.length > 0 && (first > 1 || (total !== undefined && last < total))
+        && (total === undefined || last <= total);
+    const suggestedRange = current.episode_range
+        ? `${current.episode_range.start}-${current.episode_range.end}`
+        : partial ? `${first}-${last}` : '';
+
+    const rangeInput = await input({
+        message: 'Episode range (e.g. 13-24, empty for the whole season):',
+        default: suggestedRange,
+        validate: (val) => {
+            if (val.trim() === '') return true;
+            const range = parseEpisodeRange(val);
+            if (!range) return 'Use "13-24" or a single episode number';
+            if (total !== undefined && range.end > total) return `TMDB only lists ${total} episode(s)`;
+            return true;
+        }
+    });
+    const episode_range = parseEpisodeRange(rangeInput);
+
+    // Complete when every episode up to the end of the season is present
+    const covers = total !== undefined && found.length >= total && (episode_range?.end ?? total) === total;
+    const is_complete = await confirm({
+        message: covers
+            ? `All ${total} episodes present. Is this release complete? (Fin Badge)`
+            : 'Is this release complete? (Fin Badge)',
+        default: current.is_complete ?? covers
+    });
+
+    return { episode_range, is_complete };
+}
+
 /**
  * Display metadata summary (no emoji)
  */
@@ -304,15 +446,29 @@ export function displayMetadata(data: {
     season?: number;
     badge_label?: string;
     is_complete?: boolean;
+    genres?: string[];
+    runtime?: number;
+    episode_count?: number;
+    overview_en?: string;
+    overview_zh?: string;
+    aliases?: string[];
 }): void {
     console.log('\n--- Metadata ---');
     console.log(`  Title (EN): ${data.title_en}`);
     console.log(`  Title (ZH): ${data.title_zh}`);
+    if (data.aliases?.length) console.log(`  Aliases:    ${data.aliases.join(' / ')}`);
     console.log(`  Year:       ${data.year}`);
     console.log(`  TMDB ID:    ${data.tmdb_id}`);
     console.log(`  Type:       ${data.media_type}`);
     if (data.season) console.log(`  Season:     ${data.season}`);
     if (data.badge_label) console.log(`  Badge:      ${data.badge_label}`);
     if (data.is_complete) console.log(`  Complete:   Yes`);
+    if (data.genres?.length) console.log(`  Genres:     ${data.genres.join(', ')}`);
+    if (data.runtime) console.log(`  Runtime:    ${data.runtime} min`);
+    if (data.episode_count) console.log(`  Episodes:   ${data.episode_count}`);
+    if (data.overview_en || data.overview_zh) {
+        const languages = [data.overview_en && 'EN', data.overview_zh && 'ZH'].filter(Boolean);
+        console.log(`  Overview:   ${languages.join(' / ')}`);
+    }
     console.log('----------------\n');
 }
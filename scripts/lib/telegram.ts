@@ -4,8 +4,9 @@
  */
 import fs from 'node:fs/promises';
 import path from 'node:path';
-import { parseMediaInfo, toStructured } from '../../src/lib/utils/mediainfo-parser';
+import { structureEntry } from '../../src/lib/utils/mediainfo-lint';
 import { getUniqueLanguageFlags } from '../../src/lib/utils/language-flags';
+import { getGroupKeywords } from '../../src/lib/config/groups';
 import type { ReleaseData } from './types';
 
 const TELEGRAM_API = 'https://api.telegram.org/bot';
@@ -43,15 +44,6 @@ function escapeMarkdown(text: string): string {
     return text.replace(/([_*\[\]()~`>#+\-=|{}.!\\])/g, '\\$1');
 }
 
-/**
- * Group keywords to auto-bold in display names
- */
-const GROUP_KEYWORDS = [
-    'Natuyuki', 'NTYK',
-    'Kawatare', 'KWTR',
-    'Tasokare', 'TSKR'
-];
-
 /**
  * Format display name with auto-bolded group names
  * Input: "KWTR BD 1080p FLAC x265"
@@ -61,7 +53,7 @@ function formatDisplayName(displayName: string): string {
     let result = displayName;
 
     // Replace group keywords with bold version
-    for (const keyword of GROUP_KEYWORDS) {
+    for (const keyword of getGroupKeywords()) {
         const regex = new RegExp(`\\b(${keyword})\\b`, 'gi');
         result = result.replace(regex, `**$1**`);
     }
@@ -101,7 +93,8 @@ export async function buildCaption(
         try {
             const rawPath = path.join(process.cwd(), 'static', 'mediainfo', hash);
             const rawContent = await fs.readFile(rawPath, 'utf-8');
-            const structured = toStructured(parseMediaInfo(rawContent));
+            // Same structuring as the release page (src/lib/server/mediainfo.ts)
+            const structured = structureEntry(rawContent, firstTorrent.mediainfo[0].kind);
             const langs = structured.text?.map(t => t.language).filter(Boolean) || [];
             const flags = getUniqueLanguageFlags(langs as string[]).map(f => f.flag).join('');
             if (flags) {
@@ -0,0 +1,103 @@
+/**
+ * On-disk TMDB response cache and offline fixtures
+ *
+ * Responses are stored as plain TMDB JSON, one file per endpoint + params + language:
+ *   <dir>/movie/603.en-US.json
+ *   <dir>/search/multi/include_adult%3Dfalse%26query%3Dthe%20matrix.en-US.json
+ * A fixture directory uses the same layout, so a cache snapshot doubles as a fixture set.
+ *
+ * Environment:
+ *   - TMDB_CACHE_DIR       Cache location (default: .cache/tmdb)
+ *   - TMDB_CACHE_TTL       Hours before a cached response is refetched (default: 168, 0 disables the cache)
+ *   - TMDB_OFFLINE=1       Never hit the network; serve cached (any age) or fixture responses only
+ *   - TMDB_FIXTURES_DIR    Extra read-only responses for offline mode
+ */
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+const DEFAULT_CACHE_DIR = '.cache/tmdb';
+const DEFAULT_TTL_HOURS = 168;
+
+export function isOffline(): boolean {
+    return process.env.TMDB_OFFLINE === '1';
+}
+
+function getCacheDir(): string {
+    return process.env.TMDB_CACHE_DIR || DEFAULT_CACHE_DIR;
+}
+
+let warnedInvalidTtl = false;
+
+/**
+ * Cache TTL; empty, non-numeric or negative values fall back to the default (only 0 disables the cache)
+ */
+function getTtlMs(): number {
+    const value = process.env.TMDB_CACHE_TTL?.trim();
+    const hours = value ? Number(value) : DEFAULT_TTL_HOURS;
+    if (!Number.isFinite(hours) || hours < 0) {
+        if (!warnedInvalidTtl) {
+            console.log(`[!] Invalid TMDB_CACHE_TTL "${value}", using ${DEFAULT_TTL_HOURS} hours`);
+            warnedInvalidTtl = true;
+        }
+        return DEFAULT_TTL_HOURS * 60 * 60 * 1000;
+    }
+    return hours * 60 * 60 * 1000;
+}
+
+/**
+ * Relative file path of a response: endpoint, then the remaining params (sorted), then language
+ */
+export function getCacheKey(endpoint: string, language: string, params: Record<string, string> = {}): string {
+    const query = Object.keys(params)
+        .sort()
+        .map((key) => `${key}=${params[key]}`)
+        .join('&');
+    const base = endpoint.replace(/^\/+/, '');
+    return `${query ? `${base}/${encodeURIComponent(query.toLowerCase())}` : base}.${language}.json`;
+}
+
+async function readJson(filePath: string, maxAgeMs?: number): Promise<unknown | null> {
+    try {
+        if (maxAgeMs !== undefined) {
+            const stat = await fs.stat(filePath);
+            if (Date.now() - stat.mtimeMs > maxAgeMs) return null;
+        }
+        return JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Cached response for a key, or null when missing / expired
+ * Offline mode ignores the TTL and falls back to fixtures.
+ */
+export async function readCachedResponse(key: string): Promise<unknown | null> {
+    if (isOffline()) {
+        const cached = await readJson(path.join(getCacheDir(), key));
+        if (cached !== null) return cached;
+
+        const fixturesDir = process.env.TMDB_FIXTURES_DIR;
+        return fixturesDir ? readJson(path.join(fixturesDir, key)) : null;
+    }
+
+    const ttl = getTtlMs();
+    if (ttl <= 0) return null;
+    return readJson(path.join(getCacheDir(), key), ttl);
+}
+
+/**
+ * Store a successful response (no-op when the cache is disabled)
+ */
+export async function writeCachedResponse(key: string, data: unknown): Promise<void> {
+    if (getTtlMs() <= 0) return;
+
+    const filePath = path.join(getCacheDir(), key);
+    try {
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, JSON.stringify(data), 'utf-8');
+    } catch (e) {
+        // A read-only or full disk shouldn't break the wizard
+        console.log(`[!] Failed to write TMDB cache: ${e}`);
+    }
+}
@@ -1,9 +1,15 @@
 /**
  * TMDB API Client (Simplified)
- * Only fetches: title_en, title_zh, year, tmdb_id, media_type
+ * Fetches titles, year, tmdb_id, media_type and descriptive details
+ * (overview, genres, runtime / episode count, studios, backdrop, alternative titles, external IDs)
  */
 
-const TMDB_BASE_URL = 'https://api.themoviedb.org/3';
+import { getCacheKey, isOffline, readCachedResponse, writeCachedResponse } from './tmdb-cache';
+import { HttpError, request } from './http';
+
+// Overridable so the client can be pointed at a local stand-in
+const TMDB_BASE_URL = process.env.TMDB_BASE_URL || 'https://api.themoviedb.org/3';
+const TMDB_IMAGE_URL = 'https://image.tmdb.org/t/p';
 
 export interface TMDBSearchResult {
     id: number;
@@ -14,72 +20,238 @@ export interface TMDBSearchResult {
     media_type: 'movie' | 'tv';
 }
 
-export interface TMDBMetadata {
+export interface TMDBDetails {
+    overview_en?: string;
+    overview_zh?: string;
+    genres?: string[];            // English genre names
+    runtime?: number;             // Minutes (movies)
+    episode_count?: number;       // Total episodes (TV)
+    original_title?: string;
+    original_language?: string;   // ISO 639-1
+    studios?: string[];           // Production companies
+    aliases?: string[];           // Alternative / romaji titles
+    backdrop_path?: string;       // TMDB image path, see getImageUrl
+}
+
+export interface TMDBExternalIds {
+    imdb_id?: string;             // "tt0133093"
+    tvdb_id?: number;             // TV only
+}
+
+export interface TMDBSeason {
+    season_number: number;    // 0 = Specials
+    name: string;
+    episode_count: number;
+    air_date?: string;
+}
+
+export interface TMDBEpisode {
+    episode_number: number;
+    name: string;
+    air_date?: string;
+}
+
+export interface TMDBMetadata extends TMDBDetails {
     tmdb_id: number;
     title_en: string;
     title_zh: string;
     year: number;
     media_type: 'movie' | 'tv';
     number_of_seasons?: number;
+    seasons?: TMDBSeason[];       // TV only
+    external_ids?: TMDBExternalIds;
+}
+
+// Raw API responses (only the fields read here)
+interface TMDBNamed {
+    name: string;
+}
+
+interface TMDBAlternativeTitle {
+    iso_3166_1: string;
+    title: string;
+    type?: string;
+}
+
+interface TMDBDetailsResponse {
+    id: number;
+    overview?: string;
+    genres?: TMDBNamed[];
+    original_language?: string;
+    production_companies?: TMDBNamed[];
+    backdrop_path?: string | null;
+    external_ids?: { imdb_id?: string | null; tvdb_id?: number | null };  // append_to_response
+}
+
+interface TMDBMovieResponse extends TMDBDetailsResponse {
+    title: string;
+    original_title?: string;
+    release_date?: string;
+    runtime?: number | null;
+    alternative_titles?: { titles: TMDBAlternativeTitle[] };  // append_to_response
+}
+
+interface TMDBTVResponse extends TMDBDetailsResponse {
+    name: string;
+    original_name?: string;
+    first_air_date?: string;
+    number_of_seasons?: number;
+    number_of_episodes?: number;
+    seasons?: TMDBSeason[];
+    alternative_titles?: { results: TMDBAlternativeTitle[] };  // append_to_response
+}
+
+interface TMDBSearchResponse {
+    results: (TMDBSearchResult | { media_type: 'person' })[];
+}
+
+interface TMDBSeasonResponse {
+    episodes?: TMDBEpisode[];
 }
 
 function getApiKey(): string {
     const key = process.env.TMDB_API_KEY;
     if (!key) {
-        throw new Error('TMDB_API_KEY is not set in environment variables');
+        throw new HttpError('auth', 'TMDB_API_KEY is not set in environment variables');
     }
     return key;
 }
 
 /**
- * Search TMDB for movies and TV shows (English results)
+ * GET a TMDB endpoint, going through the on-disk cache (see tmdb-cache.ts)
  */
-export async function searchMulti(query: string): Promise<TMDBSearchResult[]> {
-    const apiKey = getApiKey();
-    const url = `${TMDB_BASE_URL}/search/multi?api_key=${apiKey}&query=${encodeURIComponent(query)}&include_adult=false&language=en-US`;
+async function tmdbGet<T>(endpoint: string, language: string, params: Record<string, string> = {}): Promise<T> {
+    const key = getCacheKey(endpoint, language, params);
+    const cached = await readCachedResponse(key);
+    if (cached !== null) return cached as T;
+
+    // 404s are never cached, so offline a miss has to count as "not found"
+    // (e.g. a bare ID lookup tries movie and TV, and only one of them exists)
+    if (isOffline()) {
+        throw new HttpError('not_found', `TMDB offline: no cached response for ${key}`);
+    }
 
-    const response = await fetch(url);
-    if (!response.ok) {
-        throw new Error(`TMDB API error: ${response.status} ${response.statusText}`);
+    const query = new URLSearchParams({ api_key: getApiKey(), ...params, language });
+    let response: Response;
+    try {
+        response = await request(`${TMDB_BASE_URL}/${endpoint}?${query}`);
+    } catch (e) {
+        if (!(e instanceof HttpError)) throw e;
+        throw new HttpError(e.kind, `TMDB ${endpoint}: ${e.message}`, e.status);
     }
 
     const data = await response.json();
+    await writeCachedResponse(key, data);
+    return data as T;
+}
 
-    return (data.results as TMDBSearchResult[])
-        .filter((r) => r.media_type === 'movie' || r.media_type === 'tv')
-        .slice(0, 10);
+/**
+ * What went wrong with a TMDB call, in terms the user can act on
+ */
+export function describeTMDBError(error: unknown): string {
+    if (!(error instanceof HttpError)) return String(error);
+    switch (error.kind) {
+        case 'auth': return `Authentication failed, check TMDB_API_KEY (${error.message})`;
+        case 'not_found': return `Not found on TMDB (${error.message})`;
+        case 'rate_limited': return `Rate limited by TMDB, wait a moment (${error.message})`;
+        case 'network': return `Network error, TMDB unreachable (${error.message})`;
+        default: return `TMDB request failed (${error.message})`;
+    }
 }
 
 /**
- * Get metadata for a movie by ID
+ * Full URL of a TMDB image path ("/abc.jpg")
  */
-export async function getMovieMetadata(id: number): Promise<TMDBMetadata> {
-    const apiKey = getApiKey();
-    const urlEn = `${TMDB_BASE_URL}/movie/${id}?api_key=${apiKey}&language=en-US`;
-    const urlZh = `${TMDB_BASE_URL}/movie/${id}?api_key=${apiKey}&language=zh-CN`;
+export function getImageUrl(imagePath: string, size: string = 'w1280'): string {
+    return `${TMDB_IMAGE_URL}/${size}${imagePath}`;
+}
 
-    const [resEn, resZh] = await Promise.all([
-        fetch(urlEn),
-        fetch(urlZh)
-    ]);
+/**
+ * Details shared by movie and TV responses; overviews come from each language
+ */
+function toDetails(dataEn: TMDBDetailsResponse, dataZh: TMDBDetailsResponse | null): TMDBDetails {
+    return {
+        overview_en: dataEn.overview || undefined,
+        overview_zh: dataZh?.overview || undefined,
+        genres: dataEn.genres?.map((g) => g.name),
+        original_language: dataEn.original_language || undefined,
+        studios: dataEn.production_companies?.map((c) => c.name),
+        backdrop_path: dataEn.backdrop_path || undefined
+    };
+}
+
+// Extra data fetched along with the English details
+const APPEND_TO_RESPONSE = { append_to_response: 'alternative_titles,external_ids' };
+
+// Alternative titles from other countries are mostly translations nobody searches for
+const ALIAS_COUNTRIES = new Set(['JP', 'US', 'GB', 'CN', 'TW', 'HK']);
+const MAX_ALIASES = 10;
+
+/**
+ * Alternative titles worth searching by: romaji first, then titles from ALIAS_COUNTRIES
+ * Titles already stored elsewhere on the release are skipped.
+ */
+function toAliases(entries: TMDBAlternativeTitle[] = [], known: (string | undefined)[]): string[] | undefined {
+    const isRomaji = (entry: TMDBAlternativeTitle) => /romaji/i.test(entry.type ?? '');
 
-    if (!resEn.ok) {
-        throw new Error(`TMDB API error: ${resEn.status} ${resEn.statusText}`);
+    const seen = new Set(known.filter(Boolean).map((t) => t!.toLowerCase()));
+    const aliases: string[] = [];
+    for (const entry of [...entries.filter(isRomaji), ...entries.filter((e) => !isRomaji(e))]) {
+        if (!isRomaji(entry) && !ALIAS_COUNTRIES.has(entry.iso_3166_1)) continue;
+        const key = entry.title.toLowerCase();
+        if (seen.has(key)) continue;
+        seen.add(key);
+        aliases.push(entry.title);
     }
+    return aliases.length ? aliases.slice(0, MAX_ALIASES) : undefined;
+}
+
+function toExternalIds(dataEn: TMDBDetailsResponse): TMDBExternalIds | undefined {
+    const ids = dataEn.external_ids;
+    if (!ids) return undefined;
+    return {
+        imdb_id: ids.imdb_id || undefined,
+        tvdb_id: ids.tvdb_id || undefined
+    };
+}
+
+/**
+ * Search TMDB for movies and TV shows (English results)
+ */
+export async function searchMulti(query: string): Promise<TMDBSearchResult[]> {
+    const data = await tmdbGet<TMDBSearchResponse>('search/multi', 'en-US', { query, include_adult: 'false' });
+
+    return data.results
+        .filter((r): r is TMDBSearchResult => r.media_type === 'movie' || r.media_type === 'tv')
+        .slice(0, 10);
+}
 
-    const dataEn = await resEn.json();
-    const dataZh = resZh.ok ? await resZh.json() : null;
+/**
+ * Get metadata for a movie by ID
+ */
+export async function getMovieMetadata(id: number): Promise<TMDBMetadata> {
+    // The Chinese response is optional (titles fall back to English)
+    const [dataEn, dataZh] = await Promise.all([
+        tmdbGet<TMDBMovieResponse>(`movie/${id}`, 'en-US', APPEND_TO_RESPONSE),
+        tmdbGet<TMDBMovieResponse>(`movie/${id}`, 'zh-CN').catch(() => null)
+    ]);
 
     const year = dataEn.release_date
         ? parseInt(dataEn.release_date.split('-')[0])
         : new Date().getFullYear();
 
+    const titleZh = dataZh?.title || dataEn.title;
     return {
         tmdb_id: dataEn.id,
         title_en: dataEn.title,
-        title_zh: dataZh?.title || dataEn.title,
+        title_zh: titleZh,
         year,
-        media_type: 'movie'
+        media_type: 'movie',
+        ...toDetails(dataEn, dataZh),
+        runtime: dataEn.runtime || undefined,
+        original_title: dataEn.original_title || undefined,
+        aliases: toAliases(dataEn.alternative_titles?.titles, [dataEn.title, titleZh, dataEn.original_title]),
+        external_ids: toExternalIds(dataEn)
     };
 }
 
@@ -87,68 +259,81 @@ export async function getMovieMetadata(id: number): Promise<TMDBMetadata> {
  * Get metadata for a TV show by ID
  */
 export async function getTVMetadata(id: number): Promise<TMDBMetadata> {
-    const apiKey = getApiKey();
-    const urlEn = `${TMDB_BASE_URL}/tv/${id}?api_key=${apiKey}&language=en-US`;
-    const urlZh = `${TMDB_BASE_URL}/tv/${id}?api_key=${apiKey}&language=zh-CN`;
-
-    const [resEn, resZh] = await Promise.all([
-        fetch(urlEn),
-        fetch(urlZh)
+    // The Chinese response is optional (titles fall back to English)
+    const [dataEn, dataZh] = await Promise.all([
+        tmdbGet<TMDBTVResponse>(`tv/${id}`, 'en-US', APPEND_TO_RESPONSE),
+        tmdbGet<TMDBTVResponse>(`tv/${id}`, 'zh-CN').catch(() => null)
     ]);
 
-    if (!resEn.ok) {
-        throw new Error(`TMDB API error: ${resEn.status} ${resEn.statusText}`);
-    }
-
-    const dataEn = await resEn.json();
-    const dataZh = resZh.ok ? await resZh.json() : null;
-
     const year = dataEn.first_air_date
         ? parseInt(dataEn.first_air_date.split('-')[0])
         : new Date().getFullYear();
 
+    const titleZh = dataZh?.name || dataEn.name;
     return {
         tmdb_id: dataEn.id,
         title_en: dataEn.name,
-        title_zh: dataZh?.name || dataEn.name,
+        title_zh: titleZh,
         year,
         media_type: 'tv',
-        number_of_seasons: dataEn.number_of_seasons
+        number_of_seasons: dataEn.number_of_seasons,
+        seasons: (dataEn.seasons ?? []).map((season) => ({
+            season_number: season.season_number,
+            name: season.name,
+            episode_count: season.episode_count,
+            air_date: season.air_date || undefined
+        })),
+        ...toDetails(dataEn, dataZh),
+        episode_count: dataEn.number_of_episodes || undefined,
+        original_title: dataEn.original_name || undefined,
+        // TV responses list alternative titles under "results" instead of "titles"
+        aliases: toAliases(dataEn.alternative_titles?.results, [dataEn.name, titleZh, dataEn.original_name]),
+        external_ids: toExternalIds(dataEn)
     };
 }
 
+/**
+ * Episode list of a TV season
+ *
+ * @throws {HttpError} not_found when the show has no such season
+ */
+export async function getSeasonEpisodes(id: number, season: number): Promise<TMDBEpisode[]> {
+    const data = await tmdbGet<TMDBSeasonResponse>(`tv/${id}/season/${season}`, 'en-US');
+    return (data.episodes ?? []).map((episode) => ({
+        episode_number: episode.episode_number,
+        name: episode.name,
+        air_date: episode.air_date || undefined
+    }));
+}
+
+function isNotFound(error: unknown): boolean {
+    return error instanceof HttpError && error.kind === 'not_found';
+}
+
 /**
  * Get metadata by ID, optionally specifying type.
  * If type is not specified, tries both Movie and TV in parallel.
- * Returns valid results found.
+ * Returns valid results found; an unknown ID yields [], any other failure throws.
+ *
+ * @throws {HttpError} Auth, rate limit or network failures
  */
 export async function getMetadataById(id: number, type?: 'movie' | 'tv'): Promise<TMDBMetadata[]> {
-    if (type === 'movie') {
-        try {
-            return [await getMovieMetadata(id)];
-        } catch {
-            return [];
-        }
-    } else if (type === 'tv') {
-        try {
-            return [await getTVMetadata(id)];
-        } catch {
-            return [];
-        }
-    } else {
-        // Try both
-        const [movieRes, tvRes] = await Promise.allSettled([
-            getMovieMetadata(id),
-            getTVMetadata(id)
-        ]);
-
-        const results: TMDBMetadata[] = [];
+    const lookups = type === 'movie' ? [getMovieMetadata(id)]
+        : type === 'tv' ? [getTVMetadata(id)]
+        : [getMovieMetadata(id), getTVMetadata(id)];
 
-        if (movieRes.status === 'fulfilled') results.push(movieRes.value);
-        if (tvRes.status === 'fulfilled') results.push(tvRes.value);
+    const settled = await Promise.allSettled(lookups);
+    const results: TMDBMetadata[] = [];
 
-        return results;
+    for (const res of settled) {
+        if (res.status === 'fulfilled') {
+            results.push(res.value);
+        } else if (!isNotFound(res.reason)) {
+            throw res.reason;
+        }
     }
+
+    return results;
 }
 
 /**
@@ -3,39 +3,130 @@
  */
 import bencode from 'bencode';
 import fs from 'node:fs/promises';
-import type { TorrentEntry, TorrentFile } from './types';
+import path from 'node:path';
+import { createHash } from 'node:crypto';
+import { STATIC_PATH } from './catalogue';
+import type { TorrentFile } from './types';
+
+type BencodeString = string | Buffer | Uint8Array;
 
 interface BencodedTorrent {
+    announce?: BencodeString;
+    'announce-list'?: BencodeString[][];
     info: {
-        name: string | Buffer;
+        name: BencodeString;
         files?: Array<{
-            path: Array<string | Buffer>;
+            path: Array<BencodeString>;
             length: number;
+            attr?: BencodeString; // BEP 47, 'p' marks padding files
         }>;
         length?: number; // For single-file torrents
+        'piece length'?: number;
+        pieces?: Uint8Array;
+        'meta version'?: number; // 2 for BEP 52 (v2 / hybrid) torrents
+        private?: number; // 1 for private-tracker torrents (BEP 27)
     };
 }
 
+export interface ParsedTorrent {
+    name: string;
+    files: TorrentFile[];
+    info_hash?: string;     // v1 (SHA-1, hex)
+    info_hash_v2?: string;  // v2 (SHA-256, hex)
+    trackers: string[];
+}
+
+/** A file's position in the torrent's concatenated piece stream */
+export interface PieceFile {
+    path: string;       // Relative to the content root ('' for single-file torrents)
+    length: number;
+    offset: number;     // Byte offset in the piece stream
+    pad: boolean;       // BEP 47 padding file (zeros, never on disk)
+}
+
+export interface TorrentPieces {
+    name: string;
+    single: boolean;    // Single-file torrent (info.length set)
+    pieceLength: number;
+    pieces: Uint8Array; // Concatenated 20-byte SHA-1 piece hashes
+    files: PieceFile[];
+}
+
+// bencode v4 returns Uint8Array, not Buffer
+function toStr(val: BencodeString): string {
+    if (typeof val === 'string') return val;
+    if (val instanceof Uint8Array) return new TextDecoder().decode(val);
+    return Buffer.from(val).toString('utf8');
+}
+
+/**
+ * Return the end offset of the bencoded value starting at `pos`
+ */
+function skipValue(buf: Uint8Array, pos: number): number {
+    const c = buf[pos];
+    if (c === 0x69) { // i<int>e
+        return buf.indexOf(0x65, pos) + 1;
+    }
+    if (c === 0x6c || c === 0x64) { // l...e / d...e
+        pos++;
+        while (buf[pos] !== 0x65) {
+            if (pos >= buf.length) throw new Error('Unterminated bencode container');
+            pos = skipValue(buf, pos);
+        }
+        return pos + 1;
+    }
+    // <len>:<bytes>
+    const colon = buf.indexOf(0x3a, pos);
+    if (colon === -1) throw new Error('Malformed bencode string');
+    const len = parseInt(new TextDecoder().decode(buf.subarray(pos, colon)), 10);
+    return colon + 1 + len;
+}
+
 /**
- * Parse a .torrent file and extract file structure
+ * Locate the raw bytes of the top-level `info` dictionary.
+ * Hashing the original bytes (instead of re-encoding) keeps the hash correct
+ * even for torrents that are not canonically encoded.
  */
-export async function parseTorrent(torrentPath: string): Promise<TorrentEntry> {
+function getRawInfo(buf: Uint8Array): Uint8Array {
+    if (buf[0] !== 0x64) throw new Error('Torrent is not a bencoded dictionary');
+    let pos = 1;
+    while (pos < buf.length && buf[pos] !== 0x65) {
+        const keyStart = pos;
+        const keyEnd = skipValue(buf, keyStart);
+        const key = new TextDecoder().decode(buf.subarray(buf.indexOf(0x3a, keyStart) + 1, keyEnd));
+        const valueEnd = skipValue(buf, keyEnd);
+        if (key === 'info') return buf.subarray(keyEnd, valueEnd);
+        pos = valueEnd;
+    }
+    throw new Error('Torrent has no info dictionary');
+}
+
+/**
+ * Collect tracker URLs (announce-list tiers first, then announce), de-duplicated
+ * The result ends up in the public release JSON and magnet links, so private torrents
+ * yield none and passkeys are stripped from the rest.
+ */
+function getTrackers(decoded: BencodedTorrent): string[] {
+    if (decoded.info.private === 1) return [];
+    const trackers = (decoded['announce-list'] ?? []).flat().map(toStr);
+    if (decoded.announce) trackers.push(toStr(decoded.announce));
+    return [...new Set(trackers.filter(Boolean).map(stripPasskey))];
+}
+
+/**
+ * Parse a .torrent file and extract file structure, info hashes and trackers
+ */
+export async function parseTorrent(torrentPath: string): Promise<ParsedTorrent> {
     const buffer = await fs.readFile(torrentPath);
     const decoded = bencode.decode(buffer) as BencodedTorrent;
 
-    // bencode v4 returns Uint8Array, not Buffer
-    const toStr = (val: string | Buffer | Uint8Array): string => {
-        if (typeof val === 'string') return val;
-        if (val instanceof Uint8Array) return new TextDecoder().decode(val);
-        return Buffer.from(val).toString('utf8');
-    };
-
     const name = toStr(decoded.info.name);
     const files: TorrentFile[] = [];
 
     if (decoded.info.files) {
-        // Multi-file torrent
+        // Multi-file torrent; BEP 47 padding files aren't content
         for (const file of decoded.info.files) {
+            if (file.attr !== undefined && toStr(file.attr).includes('p')) continue;
             const pathParts = file.path.map(p => toStr(p));
             files.push({
                 path: pathParts.join('/'),
@@ -50,21 +141,124 @@ export async function parseTorrent(torrentPath: string): Promise<TorrentEntry> {
         });
     }
 
-    return { name, files };
+    // v1 hash needs `pieces` (absent in pure v2 torrents), v2 hash needs meta version 2
+    const rawInfo = getRawInfo(buffer);
+    const info_hash = decoded.info.pieces
+        ? createHash('sha1').update(rawInfo).digest('hex')
+        : undefined;
+    const info_hash_v2 = decoded.info['meta version'] === 2
+        ? createHash('sha256').update(rawInfo).digest('hex')
+        : undefined;
+
+    return { name, files, info_hash, info_hash_v2, trackers: getTrackers(decoded) };
 }
 
 /**
- * Format file size for display
+ * Read the v1 piece layout of a .torrent (for verifying local data)
  */
-export function formatSize(bytes: number): string {
-    const units = ['B', 'KiB', 'MiB', 'GiB', 'TiB'];
-    let size = bytes;
-    let unitIndex = 0;
-
-    while (size >= 1024 && unitIndex < units.length - 1) {
-        size /= 1024;
-        unitIndex++;
+export async function parsePieces(torrentPath: string): Promise<TorrentPieces> {
+    const buffer = await fs.readFile(torrentPath);
+    const decoded = bencode.decode(buffer) as BencodedTorrent;
+    const { info } = decoded;
+
+    if (!info.pieces || !info['piece length']) {
+        throw new Error('Torrent has no v1 piece hashes (pure v2 torrents are not supported)');
     }
 
-    return `${size.toFixed(2)} ${units[unitIndex]}`;
+    const name = toStr(info.name);
+    const files: PieceFile[] = [];
+    let offset = 0;
+
+    if (info.files) {
+        for (const file of info.files) {
+            files.push({
+                path: file.path.map(p => toStr(p)).join('/'),
+                length: file.length,
+                offset,
+                pad: file.attr !== undefined && toStr(file.attr).includes('p')
+            });
+            offset += file.length;
+        }
+    } else {
+        files.push({ path: '', length: info.length ?? 0, offset: 0, pad: false });
+    }
+
+    return {
+        name,
+        single: !info.files,
+        pieceLength: info['piece length'],
+        pieces: info.pieces,
+        files
+    };
+}
+
+/** Query parameters private trackers use for per-user keys */
+const PASSKEY_PARAMS = /^(passkey|authkey|torrent_pass)$/i;
+
+/** Passkey in the path: a 32-char hex segment right before the announce endpoint */
+const PASSKEY_SEGMENT = /^[a-f0-9]{32}$/i;
+const ANNOUNCE_SEGMENT = /^announce(\.php)?$/i;
+
+/**
+ * Remove per-user credentials from a tracker announce URL
+ * e.g. https://t.example/announce.php?passkey=abc -> https://t.example/announce.php
+ *      https://t.example/<32 hex>/announce        -> https://t.example/announce
+ */
+export function stripPasskey(url: string): string {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        return url;
+    }
+
+    for (const key of [...parsed.searchParams.keys()]) {
+        if (PASSKEY_PARAMS.test(key)) parsed.searchParams.delete(key);
+    }
+    const segments = parsed.pathname.split('/');
+    parsed.pathname = segments
+        .filter((segment, i) => !(PASSKEY_SEGMENT.test(segment) && ANNOUNCE_SEGMENT.test(segments[i + 1] ?? '')))
+        .join('/');
+
+    return parsed.toString();
+}
+
+/**
+ * Copy a .torrent into static/torrents/<slug>/ so the site can serve it.
+ * The file name gets the info hash appended, so same-named torrents in a release don't collide.
+ * With stripPasskeys, announce URLs are cleaned and the file is re-encoded;
+ * the info dictionary must survive re-encoding byte-for-byte (same info hash).
+ *
+ * @returns The URL-encoded public path (e.g. '/torrents/<slug>/<file>.<hash>.torrent')
+ */
+export async function publishTorrent(
+    torrentPath: string,
+    slug: string,
+    options: { stripPasskeys: boolean }
+): Promise<string> {
+    const buffer = await fs.readFile(torrentPath);
+    let output: Uint8Array = buffer;
+
+    if (options.stripPasskeys) {
+        const decoded = bencode.decode(buffer) as BencodedTorrent;
+        if (decoded.announce) {
+            decoded.announce = stripPasskey(toStr(decoded.announce));
+        }
+        if (decoded['announce-list']) {
+            decoded['announce-list'] = decoded['announce-list'].map(tier => tier.map(url => stripPasskey(toStr(url))));
+        }
+        output = bencode.encode(decoded);
+
+        if (Buffer.compare(getRawInfo(buffer), getRawInfo(output)) !== 0) {
+            throw new Error('Re-encoding changed the info dictionary (non-canonical torrent), publish without stripping instead');
+        }
+    }
+
+    const hash = createHash('sha1').update(getRawInfo(buffer)).digest('hex').slice(0, 8);
+    const filename = `${path.basename(torrentPath, '.torrent')}.${hash}.torrent`;
+    const outputDir = path.join(STATIC_PATH, 'torrents', slug);
+    await fs.mkdir(outputDir, { recursive: true });
+    await fs.writeFile(path.join(outputDir, filename), output);
+
+    return `/torrents/${encodeURIComponent(slug)}/${encodeURIComponent(filename)}`;
 }
@@ -1,12 +1,18 @@
 /**
  * Unified type definitions for CLI
  */
+import type { EpisodeRange } from '../../src/lib/content/schema';
 
 export interface TorrentEntry {
     name: string;
     display_name: string;        // 简短名: "**KWTR** BD 1080p DD+ x265"
     files: TorrentFile[];
     mediainfo: MediaInfoEntry[]; // 内嵌 MediaInfo
+    info_hash?: string;          // v1 info hash (SHA-1 hex)
+    info_hash_v2?: string;       // v2 info hash (SHA-256 hex, BEP 52)
+    trackers?: string[];         // announce / announce-list URLs
+    torrent_file?: string;       // 公开的 .torrent 路径: "/torrents/<slug>/<file>.<hash>.torrent" (URL 编码)
+    group?: string;              // 发布组 tag，省略时从 name 自动识别
 }
 
 export interface TorrentFile {
@@ -17,6 +23,7 @@ export interface TorrentFile {
 export interface MediaInfoEntry {
     filename: string;
     raw_hash: string;
+    kind?: 'mediainfo' | 'bdinfo'; // 省略时为 mediainfo
 }
 
 export interface SpecEntry {
@@ -29,15 +36,26 @@ export interface ReleaseData {
     title: string;
     title_en?: string;
     title_zh?: string;
+    aliases?: string[];
     date: string;
     tmdb_id: number;
     media_type: 'movie' | 'tv';
     special_type?: 'tva' | 'ova' | 'ona' | 'special';
     season?: number;
     badge_label?: string;
+    episode_range?: EpisodeRange;
     is_complete?: boolean;
     year: number;
+    overview_en?: string;
+    overview_zh?: string;
+    genres?: string[];
+    runtime?: number;
+    episode_count?: number;
+    original_title?: string;
+    original_language?: string;
+    studios?: string[];
     poster: string;
+    backdrop?: string;
     torrents: TorrentEntry[];
     specs: SpecEntry[];
     links: Record<string, string>;
@@ -0,0 +1,137 @@
+/**
+ * Catalogue validation
+ * Runs every release through ReleaseSchema and checks the files it references
+ */
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { safeValidateRelease, type Release } from '../../src/lib/content/schema';
+import { getGroupByTag } from '../../src/lib/config/groups';
+import { lintMediaInfo, structureEntry, type MediaInfoLintInput } from '../../src/lib/utils/mediainfo-lint';
+import { loadReleases, getOgPath, STATIC_PATH, toStaticPath } from './catalogue';
+
+export interface ReleaseReport {
+    file: string;
+    slug?: string;
+    errors: string[];
+    warnings: string[];
+}
+
+async function exists(filePath: string): Promise<boolean> {
+    try {
+        await fs.access(filePath);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Check the static assets referenced by a release
+ */
+async function checkAssets(release: Release): Promise<string[]> {
+    const errors: string[] = [];
+
+    if (!await exists(path.join(STATIC_PATH, release.poster))) {
+        errors.push(`Poster not found: static${release.poster}`);
+    }
+
+    const og = getOgPath(release.poster);
+    if (!await exists(path.join(STATIC_PATH, og))) {
+        errors.push(`OG image not found: static${og}`);
+    }
+
+    if (release.backdrop && !await exists(path.join(STATIC_PATH, release.backdrop))) {
+        errors.push(`Backdrop not found: static${release.backdrop}`);
+    }
+
+    for (const [i, torrent] of release.torrents.entries()) {
+        for (const mi of torrent.mediainfo) {
+            if (!await exists(path.join(STATIC_PATH, 'mediainfo', mi.raw_hash))) {
+                errors.push(`torrents.${i}: MediaInfo not found: static/mediainfo/${mi.raw_hash} (${mi.filename})`);
+            }
+        }
+        if (torrent.torrent_file && !await exists(toStaticPath(torrent.torrent_file))) {
+            errors.push(`torrents.${i}: Torrent file not found: static${decodeURIComponent(torrent.torrent_file)}`);
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * Diff the MediaInfo of each torrent's episodes against its first entry
+ * Entries whose raw file is missing are skipped (checkAssets reports those)
+ */
+export async function lintTorrentMediaInfo(torrents: Pick<Release['torrents'][number], 'mediainfo'>[]): Promise<string[]> {
+    const warnings: string[] = [];
+
+    for (const [i, torrent] of torrents.entries()) {
+        const inputs: MediaInfoLintInput[] = [];
+        for (const mi of torrent.mediainfo) {
+            try {
+                const raw = await fs.readFile(path.join(STATIC_PATH, 'mediainfo', mi.raw_hash), 'utf-8');
+                inputs.push({ filename: mi.filename, structured: structureEntry(raw, mi.kind) });
+            } catch {
+                // Missing raw file
+            }
+        }
+        for (const issue of lintMediaInfo(inputs)) {
+            warnings.push(`torrents.${i}: ${issue.filename}: ${issue.message}`);
+        }
+    }
+
+    return warnings;
+}
+
+/**
+ * Validate every release in the catalogue
+ * Returns one report per release file (and per file that failed to load)
+ */
+export async function validateCatalogue(): Promise<ReleaseReport[]> {
+    const reports: ReleaseReport[] = [];
+
+    const entries = await loadReleases((file, error) => {
+        reports.push({ file, errors: [`Failed to load: ${error instanceof Error ? error.message : error}`], warnings: [] });
+    });
+
+    const slugCounts = new Map<string, number>();
+    for (const { release } of entries) {
+        slugCounts.set(release.slug, (slugCounts.get(release.slug) ?? 0) + 1);
+    }
+
+    for (const entry of entries) {
+        const file = path.basename(entry.path);
+        const report: ReleaseReport = { file, slug: entry.release.slug, errors: [], warnings: [] };
+        reports.push(report);
+
+        const result = safeValidateRelease(entry.release);
+        if (!result.success) {
+            for (const issue of result.error.issues) {
+                report.errors.push(`${issue.path.join('.') || '(root)'}: ${issue.message}`);
+            }
+            // Asset checks need a structurally valid release
+            continue;
+        }
+
+        const release = result.data;
+        if (path.parse(file).name !== release.slug) {
+            report.errors.push(`Slug "${release.slug}" does not match file name "${file}"`);
+        }
+        if ((slugCounts.get(release.slug) ?? 0) > 1) {
+            report.errors.push(`Duplicate slug "${release.slug}"`);
+        }
+        if (isNaN(new Date(release.date).getTime())) {
+            report.errors.push(`Unparseable date: ${release.date}`);
+        }
+        for (const [i, torrent] of release.torrents.entries()) {
+            if (torrent.group && !getGroupByTag(torrent.group)) {
+                report.errors.push(`torrents.${i}: Unknown release group "${torrent.group}"`);
+            }
+        }
+
+        report.errors.push(...await checkAssets(release));
+        report.warnings.push(...await lintTorrentMediaInfo(release.torrents));
+    }
+
+    return reports;
+}
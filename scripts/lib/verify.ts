@@ -0,0 +1,186 @@
+/**
+ * Torrent piece verification
+ * Hashes local files against a .torrent's v1 piece hashes
+ */
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { createHash } from 'node:crypto';
+import { parsePieces, type PieceFile } from './torrent';
+
+// 'boundary': the file's own pieces pass, but a piece it shares with a neighbour fails
+export type FileStatus = 'ok' | 'corrupt' | 'boundary' | 'missing' | 'size-mismatch';
+
+export interface FileResult {
+    path: string;           // Relative to the content root
+    size: number;           // Expected size
+    status: FileStatus;
+    badPieces: number;      // Failed pieces lying entirely inside this file
+    sharedBadPieces: number; // Failed pieces shared with other files (can't tell which one is bad)
+    totalPieces: number;
+}
+
+export interface VerifyResult {
+    name: string;
+    root: string;           // Resolved content path on disk
+    files: FileResult[];
+    extra: string[];        // Files on disk the torrent does not list
+    piecesOk: number;
+    piecesTotal: number;
+}
+
+async function statFile(filePath: string): Promise<number | null> {
+    try {
+        const stat = await fs.stat(filePath);
+        return stat.isFile() ? stat.size : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Resolve where the torrent's content lives: <dataDir>/<name> like a client's
+ * download directory, or dataDir itself when it already points at the content
+ */
+export async function resolveContentRoot(dataDir: string, name: string, single: boolean): Promise<string> {
+    const nested = path.join(dataDir, name);
+    try {
+        await fs.access(nested);
+        return nested;
+    } catch {
+        if (single && await statFile(dataDir) !== null) return dataDir;
+        return single ? nested : dataDir;
+    }
+}
+
+async function listFiles(dir: string): Promise<string[]> {
+    try {
+        const entries = await fs.readdir(dir, { recursive: true, withFileTypes: true });
+        return entries
+            .filter(e => e.isFile())
+            .map(e => path.relative(dir, path.join(e.parentPath, e.name)).split(path.sep).join('/'));
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Verify the files under dataDir against a .torrent
+ * Files that are missing or have the wrong size count as failed data for every piece they touch
+ */
+export async function verifyTorrent(torrentPath: string, dataDir: string): Promise<VerifyResult> {
+    const torrent = await parsePieces(torrentPath);
+    const root = await resolveContentRoot(path.resolve(dataDir), torrent.name, torrent.single);
+    const pieceCount = torrent.pieces.length / 20;
+    const pieceOk: boolean[] = new Array(pieceCount).fill(false);
+
+    const statuses = new Map<PieceFile, FileStatus>();
+    for (const file of torrent.files) {
+        if (file.pad) continue;
+        const size = await statFile(torrent.single ? root : path.join(root, file.path));
+        statuses.set(file, size === null ? 'missing' : size !== file.length ? 'size-mismatch' : 'ok');
+    }
+
+    // Stream the concatenated file data piece by piece
+    const piece = Buffer.alloc(torrent.pieceLength);
+    let filled = 0;
+    let pieceIndex = 0;
+    let pieceValid = true;
+
+    const finishPiece = () => {
+        // Pieces touching missing / short files fail anyway, no need to hash them
+        if (pieceValid) {
+            const expected = torrent.pieces.subarray(pieceIndex * 20, pieceIndex * 20 + 20);
+            const actual = createHash('sha1').update(piece.subarray(0, filled)).digest();
+            pieceOk[pieceIndex] = actual.equals(expected);
+        }
+        pieceIndex++;
+        filled = 0;
+        pieceValid = true;
+    };
+
+    for (const file of torrent.files) {
+        const status = statuses.get(file);
+        const handle = status === 'ok'
+            ? await fs.open(torrent.single ? root : path.join(root, file.path), 'r')
+            : null;
+
+        try {
+            let remaining = file.length;
+            while (remaining > 0) {
+                const chunk = Math.min(remaining, torrent.pieceLength - filled);
+                if (handle) {
+                    const { bytesRead } = await handle.read(piece, filled, chunk, file.length - remaining);
+                    if (bytesRead !== chunk) pieceValid = false;
+                } else {
+                    // Padding is zeros by definition; unreadable data fails the piece
+                    piece.fill(0, filled, filled + chunk);
+                    if (!file.pad) pieceValid = false;
+                }
+                filled += chunk;
+                remaining -= chunk;
+                if (filled === torrent.pieceLength) finishPiece();
+            }
+        } finally {
+            await handle?.close();
+        }
+    }
+    if (filled > 0) finishPiece();
+
+    const pieceRange = (file: PieceFile) => {
+        const first = Math.floor(file.offset / torrent.pieceLength);
+        const last = file.length > 0 ? Math.floor((file.offset + file.length - 1) / torrent.pieceLength) : first - 1;
+        return [first, last];
+    };
+
+    // Number of real (non-padding) files each piece covers
+    const pieceFiles: number[] = new Array(pieceCount).fill(0);
+    for (const file of torrent.files) {
+        if (file.pad) continue;
+        const [first, last] = pieceRange(file);
+        for (let i = first; i <= last; i++) pieceFiles[i]++;
+    }
+
+    const files: FileResult[] = [];
+    for (const file of torrent.files) {
+        if (file.pad) continue;
+        const [first, last] = pieceRange(file);
+        let badPieces = 0;
+        let sharedBadPieces = 0;
+        for (let i = first; i <= last; i++) {
+            if (pieceOk[i]) continue;
+            if (pieceFiles[i] > 1) sharedBadPieces++;
+            else badPieces++;
+        }
+
+        let status = statuses.get(file)!;
+        if (status === 'ok' && badPieces > 0) status = 'corrupt';
+        else if (status === 'ok' && sharedBadPieces > 0) status = 'boundary';
+
+        files.push({
+            path: torrent.single ? torrent.name : file.path,
+            size: file.length,
+            status,
+            badPieces,
+            sharedBadPieces,
+            totalPieces: last - first + 1
+        });
+    }
+
+    // Extra files only make sense for multi-file torrents with their own folder
+    const extra: string[] = [];
+    if (!torrent.single) {
+        const expected = new Set(torrent.files.map(f => f.path));
+        for (const file of await listFiles(root)) {
+            if (!expected.has(file)) extra.push(file);
+        }
+    }
+
+    return {
+        name: torrent.name,
+        root,
+        files,
+        extra,
+        piecesOk: pieceOk.filter(Boolean).length,
+        piecesTotal: pieceCount
+    };
+}
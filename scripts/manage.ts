@@ -6,12 +6,22 @@
  * 
  * Usage:
  *   bun run cli create         - Interactive wizard to create a new release
+ *   bun run cli create --from <manifest.yaml|json>
+ *                              - Create a release non-interactively from a manifest
+ *   bun run cli list [filters] - List releases (--type, --year, --group, --since, --until, --title, --json)
+ *   bun run cli show <slug>    - Print a release with torrents, MediaInfo summaries and links
+ *   bun run cli validate       - Validate every release against the schema and static assets
+ *   bun run cli verify <slug|file.torrent> --data <dir>
+ *                              - Hash local files against the torrent's pieces
+ *   bun run cli gc [--yes]     - Delete posters, OG images, backdrops, MediaInfo and .torrent files no release references
+ *   bun run cli migrate        - Convert legacy .ts release modules to .json data files
  *   bun run cli delete <slug>  - Delete a release by its slug
  *   bun run cli deploy         - Build and deploy to Cloudflare Pages (Direct Upload)
  * 
  * Environment:
  *   Requires .env file with:
- *     - TMDB_API_KEY (for metadata fetching)
+ *     - TMDB_API_KEY (for metadata fetching; not needed with TMDB_OFFLINE=1)
+ *     - TMDB_CACHE_DIR, TMDB_CACHE_TTL, TMDB_OFFLINE, TMDB_FIXTURES_DIR (optional, see lib/tmdb-cache.ts)
  *     - TELEGRAM_BOT_TOKEN (optional, for notifications)
  *     - TELEGRAM_CHANNEL_ID (optional, for notifications)
  */
@@ -21,7 +31,7 @@ import fs from 'node:fs/promises';
 import path from 'node:path';
 import os from 'node:os';
 import { exec as execCb } from 'node:child_process';
-import { promisify } from 'node:util';
+import { promisify, parseArgs } from 'node:util';
 import { select } from '@inquirer/prompts';
 import { confirm } from '@inquirer/prompts';
 
@@ -37,12 +47,18 @@ import {
     promptTorrentPath,
     promptAddMore,
     promptMediaInfo,
+    promptPublishTorrent,
+    promptGroup,
+    promptMediaInfoSource,
+    promptDataFolder,
+    promptVideoFiles,
     promptBBCode,
     promptLink,
     promptDisplayName,
     promptComparisons,
     promptTelegramImage,
     promptRefineMetadata,
+    promptEpisodes,
     displayMetadata
 } from './lib/prompts';
 import {
@@ -51,24 +67,99 @@ import {
     getTVMetadata,
     getMetadataById,
     formatSearchResult,
-    type TMDBMetadata
+    getImageUrl,
+    getSeasonEpisodes,
+    describeTMDBError,
+    type TMDBMetadata,
+    type TMDBDetails,
+    type TMDBExternalIds
 } from './lib/tmdb';
-import { parseTorrent, formatSize } from './lib/torrent';
+import { isOffline } from './lib/tmdb-cache';
+import { request } from './lib/http';
+import { parseTorrent, publishTorrent, type ParsedTorrent } from './lib/torrent';
+import { formatSize, getTotalSize } from '../src/lib/utils/size';
+import {
+    loadReleases,
+    loadLegacyReleases,
+    readRelease,
+    writeRelease,
+    serializeRelease,
+    getReleasePath,
+    toRelease,
+    fromRelease,
+    filterReleases,
+    getOgPath,
+    STATIC_PATH,
+    toStaticPath,
+    type ReleaseFilters
+} from './lib/catalogue';
+import { getReleaseBadges, safeValidateRelease, MediaTypeSchema, type EpisodeRange } from '../src/lib/content/schema';
+import { parseAndSummarize, parseMediaInfo, type MediaInfoStructured } from '../src/lib/utils/mediainfo-parser';
+import { structureEntry } from '../src/lib/utils/mediainfo-lint';
+import { isBDInfo, parseBDInfo, parseBDInfoAndSummarize } from '../src/lib/utils/bdinfo-parser';
 import { parseBBCodeSpecs } from './lib/bbcode';
-import { detectPlatform, isValidUrl, getSupportedPlatforms } from './lib/links';
-import { generateReleaseCode } from './lib/templates';
+import { detectPlatform, isValidUrl, getSupportedPlatforms, buildExternalLinks } from './lib/links';
+import { validateCatalogue, lintTorrentMediaInfo } from './lib/validate';
+import { findOrphanedAssets, removeEmptyAssetDirs } from './lib/gc';
+import { verifyTorrent, type VerifyResult } from './lib/verify';
+import { detectMediaInfo, getVideoFiles, hasMediaInfoBinary } from './lib/mediainfo';
+import { loadManifest, ManifestError, type ReleaseManifest } from './lib/manifest';
+import { generateDisplayName } from './lib/display-name';
+import { getEpisodeNumbers, parseEpisodeRange } from './lib/episodes';
+import { detectGroup } from '../src/lib/config/groups';
 import { generateHash, type ReleaseData, type TorrentEntry, type MediaInfoEntry, type SpecEntry } from './lib/types';
-import { processPoster } from './lib/images';
+import { processPoster, processBackdrop } from './lib/images';
 import { buildCaption, sendPhoto, isSupportedFormat } from './lib/telegram';
 import { tempManager } from './lib/cleanup';
 
-const RELEASES_DIR = path.join(process.cwd(), 'src/lib/content/releases');
-const STATIC_PATH = path.join(process.cwd(), 'static');
+// ==========================================
+// Helpers
+// ==========================================
+
+/**
+ * Store a raw MediaInfo / BDInfo report under static/mediainfo/<hash>
+ * Filename is taken from the "Complete name" line (or the BDInfo playlist)
+ */
+async function saveMediaInfo(content: string, knownFilename?: string): Promise<MediaInfoEntry> {
+    const hash = generateHash(8);
+    const hashPath = path.join(STATIC_PATH, 'mediainfo', hash);
+    await fs.mkdir(path.dirname(hashPath), { recursive: true });
+    await fs.writeFile(hashPath, content, 'utf-8');
+
+    // BDInfo scans are named after their playlist
+    if (isBDInfo(content)) {
+        const report = parseBDInfo(content);
+        const filename = knownFilename ?? report.playlist ?? report.disc_title ?? 'BDInfo';
+        return { filename, raw_hash: hash, kind: 'bdinfo' };
+    }
+
+    // "Complete name" (Text) or media ref (JSON/XML), normalized by the parser
+    const completeName = parseMediaInfo(content)['General']?.[0]?.data['Complete name'];
+    const guessed = typeof completeName === 'string' ? completeName.trim().split(/[/\\]/).pop() : undefined;
+    const filename = knownFilename ?? (guessed || 'unknown.mkv');
+
+    return { filename, raw_hash: hash };
+}
 
 // ==========================================
 // Step Functions
 // ==========================================
 
+/**
+ * Run a TMDB call; on failure say what went wrong and offer to retry
+ * @returns null when the user gives up
+ */
+async function withTMDBRetry<T>(action: string, fn: () => Promise<T>): Promise<T | null> {
+    while (true) {
+        try {
+            return await fn();
+        } catch (e) {
+            console.log(`[!] ${action} failed: ${describeTMDBError(e)}`);
+            if (!await confirm({ message: 'Retry?', default: true })) return null;
+        }
+    }
+}
+
 async function stepMetadata(): Promise<{
     title_en: string;
     title_zh: string;
@@ -79,7 +170,9 @@ async function stepMetadata(): Promise<{
     season?: number;
     badge_label?: string;
     is_complete?: boolean;
-} | null> {
+    episode_range?: EpisodeRange;
+    external_ids?: TMDBExternalIds;
+} & TMDBDetails | null> {
     const tmdbId = await promptTMDBId();
     let metadata: TMDBMetadata | null = null;
 
@@ -95,8 +188,8 @@ async function stepMetadata(): Promise<{
             id = parseInt(tmdbId);
         }
 
-        try {
-            const candidates = await getMetadataById(id, type);
+        const candidates = await withTMDBRetry('TMDB lookup', () => getMetadataById(id, type));
+        if (candidates) {
             if (candidates.length === 0) {
                 console.log('[!] TMDB lookup failed: No results found');
             } else if (candidates.length === 1) {
@@ -111,12 +204,10 @@ async function stepMetadata(): Promise<{
                 });
                 metadata = candidates[selectedIndex];
             }
-        } catch (e) {
-            console.log(`[!] TMDB lookup failed: ${e}`);
         }
     } else {
         const query = await promptSearchQuery();
-        const results = await searchMulti(query);
+        const results = await withTMDBRetry('TMDB search', () => searchMulti(query)) ?? [];
 
         if (results.length === 0) {
             console.log('[!] No results found');
@@ -130,26 +221,19 @@ async function stepMetadata(): Promise<{
             });
 
             const result = results[selected];
-            try {
-                if (result.media_type === 'movie') {
-                    metadata = await getMovieMetadata(result.id);
-                } else {
-                    metadata = await getTVMetadata(result.id);
-                }
-            } catch (e) {
-                console.log(`[!] Failed to fetch details: ${e}`);
-            }
+            metadata = await withTMDBRetry('Fetching details', () => result.media_type === 'movie'
+                ? getMovieMetadata(result.id)
+                : getTVMetadata(result.id));
         }
     }
 
     if (metadata) {
-        const refined = await promptRefineMetadata(metadata.media_type, metadata.number_of_seasons);
+        const refined = await promptRefineMetadata(metadata.media_type, metadata.seasons);
         const finalMetadata = {
             ...metadata,
             special_type: refined.special_type,
             season: refined.season,
-            badge_label: refined.badge_label,
-            is_complete: refined.is_complete
+            badge_label: refined.badge_label
         };
 
         displayMetadata(finalMetadata);
@@ -177,8 +261,7 @@ async function stepMetadata(): Promise<{
                 tmdb_id: 0,
                 special_type: refinedManual.special_type,
                 season: refinedManual.season,
-                badge_label: refinedManual.badge_label,
-                is_complete: refinedManual.is_complete
+                badge_label: refinedManual.badge_label
             };
         }
     } else {
@@ -190,12 +273,85 @@ async function stepMetadata(): Promise<{
             tmdb_id: 0,
             special_type: refinedManual.special_type,
             season: refinedManual.season,
-            badge_label: refinedManual.badge_label,
-            is_complete: refinedManual.is_complete
+            badge_label: refinedManual.badge_label
         };
     }
 }
 
+/**
+ * Episode range and completeness of a TV release, checked against TMDB's episode list
+ * Runs once the torrents are known; movies keep what they have
+ */
+async function stepEpisodes(
+    metadata: {
+        tmdb_id: number;
+        media_type: 'movie' | 'tv';
+        season?: number;
+        episode_range?: EpisodeRange;
+        is_complete?: boolean;
+    },
+    torrents: TorrentEntry[]
+): Promise<{ episode_range?: EpisodeRange; is_complete?: boolean }> {
+    if (metadata.media_type !== 'tv') return { is_complete: metadata.is_complete };
+
+    console.log('\n--- Episodes ---');
+    let total: number | undefined;
+    if (metadata.tmdb_id > 0) {
+        // Single-season shows are stored without a season number
+        const episodes = await withTMDBRetry('Fetching episode list',
+            () => getSeasonEpisodes(metadata.tmdb_id, metadata.season ?? 1));
+        total = episodes?.length;
+    }
+
+    return promptEpisodes(total, getEpisodeNumbers(torrents), metadata);
+}
+
+/**
+ * Non-interactive counterpart of stepEpisodes: compare TMDB's episode count with the torrents
+ */
+async function printEpisodeCoverage(tmdbId: number, season: number | undefined, torrents: TorrentEntry[]) {
+    const found = getEpisodeNumbers(torrents);
+    if (tmdbId <= 0 || found.length === 0) return;
+
+    try {
+        const total = (await getSeasonEpisodes(tmdbId, season ?? 1)).length;
+        const status = found.length >= total ? 'consider is_complete: true' : 'partial release, consider episodes';
+        console.log(`[i] TMDB lists ${total} episode(s); torrents contain ${found.length} (${status})`);
+    } catch (e) {
+        console.log(`[!] Episode list unavailable: ${describeTMDBError(e)}`);
+    }
+}
+
+/**
+ * TMDB details stored on the release (the backdrop is downloaded separately)
+ */
+function getReleaseDetails(details: TMDBDetails): Partial<ReleaseData> {
+    return {
+        overview_en: details.overview_en,
+        overview_zh: details.overview_zh,
+        genres: details.genres,
+        runtime: details.runtime,
+        episode_count: details.episode_count,
+        original_title: details.original_title,
+        original_language: details.original_language,
+        studios: details.studios,
+        aliases: details.aliases
+    };
+}
+
+/**
+ * Download the TMDB backdrop, if any (skipped offline; a failed download only warns)
+ */
+async function stepBackdrop(slug: string, backdropPath?: string): Promise<string | undefined> {
+    if (!backdropPath || isOffline()) return undefined;
+    try {
+        return await processBackdrop(getImageUrl(backdropPath), slug);
+    } catch (e) {
+        console.log(`[!] Failed to download backdrop: ${e}`);
+        return undefined;
+    }
+}
+
 async function stepPoster(slug: string): Promise<string> {
     console.log('\n--- Poster ---');
     const posterInput = await promptPoster();
@@ -204,7 +360,73 @@ async function stepPoster(slug: string): Promise<string> {
     return posterPath;
 }
 
-async function stepTorrents(): Promise<TorrentEntry[]> {
+/**
+ * Publish a .torrent under static/torrents/<slug>/
+ * stripPasskeys only affects the copied file; stored trackers are always passkey-free (see parseTorrent)
+ */
+async function publishTorrentFile(
+    torrentPath: string,
+    slug: string,
+    entry: TorrentEntry,
+    stripPasskeys: boolean
+): Promise<void> {
+    entry.torrent_file = await publishTorrent(torrentPath, slug, { stripPasskeys });
+    console.log(`[+] Published: static${decodeURIComponent(entry.torrent_file)}`);
+}
+
+/**
+ * Read MediaInfo for the torrent's video files from a local data folder
+ * Returns an empty list when nothing could be detected (caller falls back to paste)
+ */
+async function stepDetectMediaInfo(parsedTorrent: ParsedTorrent): Promise<MediaInfoEntry[]> {
+    const videos = getVideoFiles(parsedTorrent.files);
+    if (videos.length === 0) {
+        console.log('[!] No video files in this torrent');
+        return [];
+    }
+
+    if (!await hasMediaInfoBinary()) {
+        console.log('[i] mediainfo not found on PATH, only .txt dumps next to the videos will be used');
+    }
+
+    const dataDir = await promptDataFolder();
+    const selected = await promptVideoFiles(videos);
+    const detected = await detectMediaInfo(parsedTorrent, selected, dataDir, (file) => {
+        console.log(`[!] No MediaInfo for ${file.path}`);
+    });
+
+    const entries: MediaInfoEntry[] = [];
+    for (const { file, content, source } of detected) {
+        const entry = await saveMediaInfo(content, path.basename(file.path));
+        entries.push(entry);
+        console.log(`[+] Saved (${source}): ${entry.filename} -> ${entry.raw_hash}`);
+    }
+
+    if (entries.length === 0) {
+        console.log('[!] Nothing detected, falling back to manual paste');
+    }
+    return entries;
+}
+
+/**
+ * Display name generated from the torrent name and its first MediaInfo
+ */
+async function suggestDisplayName(torrentName: string, mediainfo: MediaInfoEntry[], group?: string): Promise<string> {
+    const first = mediainfo[0];
+    let structured: MediaInfoStructured | null = null;
+    if (first) {
+        try {
+            const raw = await fs.readFile(path.join(STATIC_PATH, 'mediainfo', first.raw_hash), 'utf-8');
+            structured = structureEntry(raw, first.kind);
+        } catch {
+            // Raw file missing, fall back to the torrent name alone
+        }
+    }
+    return generateDisplayName(torrentName, structured, { bdinfo: first?.kind === 'bdinfo', group })
+        || torrentName.substring(0, 50);
+}
+
+async function stepTorrents(slug: string): Promise<TorrentEntry[]> {
     console.log('\n--- Torrents ---');
     const torrents: TorrentEntry[] = [];
 
@@ -214,36 +436,50 @@ async function stepTorrents(): Promise<TorrentEntry[]> {
             const parsedTorrent = await parseTorrent(torrentPath);
             console.log(`[+] Parsed: ${parsedTorrent.name} (${parsedTorrent.files.length} files)`);
 
-            const display_name = await promptDisplayName(parsedTorrent.name);
-
             console.log(`\n--- MediaInfo for this Torrent ---`);
             const mediainfo: MediaInfoEntry[] = [];
-            do {
-                const content = await promptMediaInfo();
-                if (!content.trim()) {
-                    console.log('[!] Empty content, skipped');
-                    continue;
-                }
+            if (await promptMediaInfoSource() === 'folder') {
+                mediainfo.push(...await stepDetectMediaInfo(parsedTorrent));
+            }
 
-                const filenameMatch = content.match(/Complete name\s*:\s*(.+)/i);
-                const filename = filenameMatch
-                    ? filenameMatch[1].trim().split(/[/\\]/).pop() || 'unknown.mkv'
-                    : 'unknown.mkv';
+            // Manual paste (also the fallback when nothing was detected)
+            if (mediainfo.length === 0) {
+                do {
+                    const content = await promptMediaInfo();
+                    if (!content.trim()) {
+                        console.log('[!] Empty content, skipped');
+                        continue;
+                    }
 
-                const hash = generateHash(8);
-                const hashPath = path.join(STATIC_PATH, 'mediainfo', hash);
-                await fs.writeFile(hashPath, content, 'utf-8');
+                    const entry = await saveMediaInfo(content);
+                    mediainfo.push(entry);
+                    console.log(`[+] Saved: ${entry.filename} -> ${entry.raw_hash}`);
+                } while (mediainfo.length === 0 || await promptAddMore('MediaInfo to this torrent'));
+            }
 
-                mediainfo.push({ filename, raw_hash: hash });
-                console.log(`[+] Saved: ${filename} -> ${hash}`);
-            } while (mediainfo.length === 0 || await promptAddMore('MediaInfo to this torrent'));
+            // Only stored when it overrides detection from the torrent name ('' = no group)
+            const detected = detectGroup(parsedTorrent.name)?.tag;
+            const group = await promptGroup(detected);
 
-            torrents.push({
-                name: parsedTorrent.name,
+            const display_name = await promptDisplayName(await suggestDisplayName(parsedTorrent.name, mediainfo, group));
+
+            const entry: TorrentEntry = {
+                ...parsedTorrent,
                 display_name,
-                files: parsedTorrent.files,
-                mediainfo
-            });
+                mediainfo,
+                group: group !== (detected ?? '') ? group : undefined
+            };
+
+            const publish = await promptPublishTorrent();
+            if (publish !== 'skip') {
+                try {
+                    await publishTorrentFile(torrentPath, slug, entry, publish === 'strip');
+                } catch (e) {
+                    console.log(`[!] Failed to publish torrent file: ${e instanceof Error ? e.message : e}`);
+                }
+            }
+
+            torrents.push(entry);
             console.log(`[+] Added torrent with ${mediainfo.length} MediaInfo entries`);
 
         } catch (e) {
@@ -275,7 +511,7 @@ async function stepSpecs(): Promise<SpecEntry[]> {
     return specs;
 }
 
-async function stepLinks(tmdbId: number, mediaType: string): Promise<Record<string, string>> {
+async function stepLinks(tmdbId: number, mediaType: string, externalIds?: TMDBExternalIds): Promise<Record<string, string>> {
     console.log('\n--- External Links ---');
     const links: Record<string, string> = {};
 
@@ -285,6 +521,14 @@ async function stepLinks(tmdbId: number, mediaType: string): Promise<Record<stri
         console.log(`[+] Auto-added: tmdb`);
     }
 
+    // IDs from TMDB can point at the wrong entry (e.g. a remake), so each one is confirmed
+    for (const [platform, url] of Object.entries(buildExternalLinks(externalIds ?? {}))) {
+        if (await confirm({ message: `Add ${platform}: ${url}?`, default: true })) {
+            links[platform] = url;
+            console.log(`[+] Added: ${platform}`);
+        }
+    }
+
     let addMoreLinks = true;
     while (addMoreLinks) {
         const url = await promptLink();
@@ -326,8 +570,7 @@ async function stepTelegram(release: ReleaseData): Promise<void> {
                 continue;
             }
             try {
-                const response = await fetch(imageInput);
-                if (!response.ok) throw new Error(`HTTP ${response.status}`);
+                const response = await request(imageInput);
                 const buffer = Buffer.from(await response.arrayBuffer());
                 imagePath = path.join(os.tmpdir(), `telegram-${Date.now()}.${urlExt}`);
                 await fs.writeFile(imagePath, buffer);
@@ -372,6 +615,19 @@ async function stepTelegram(release: ReleaseData): Promise<void> {
     }
 }
 
+/**
+ * Warn about episodes whose MediaInfo differs from the first one in the same torrent
+ */
+async function printMediaInfoLint(torrents: TorrentEntry[]) {
+    const warnings = await lintTorrentMediaInfo(torrents);
+    if (warnings.length === 0) return;
+
+    console.log('\n[!] MediaInfo differs between episodes:');
+    for (const warning of warnings) {
+        console.log(`    - ${warning}`);
+    }
+}
+
 // ==========================================
 // Commands
 // ==========================================
@@ -385,9 +641,11 @@ async function create() {
     if (!metadata) return;
 
     let posterPath = await stepPoster(slug);
-    let torrents = await stepTorrents();
+    let backdrop = await stepBackdrop(slug, metadata.backdrop_path);
+    let torrents = await stepTorrents(slug);
+    metadata = { ...metadata, ...await stepEpisodes(metadata, torrents) };
     let specs = await stepSpecs();
-    let links = await stepLinks(metadata.tmdb_id, metadata.media_type);
+    let links = await stepLinks(metadata.tmdb_id, metadata.media_type, metadata.external_ids);
 
     while (true) {
         const releaseData: ReleaseData = {
@@ -400,31 +658,27 @@ async function create() {
             media_type: metadata.media_type,
             special_type: metadata.special_type,
             year: metadata.year,
+            ...getReleaseDetails(metadata),
             poster: posterPath,
+            backdrop,
             torrents,
             specs,
             links,
             season: metadata.season,
             badge_label: metadata.badge_label,
+            episode_range: metadata.episode_range,
             is_complete: metadata.is_complete
         };
 
-        const codeBlock = generateReleaseCode(releaseData);
-        // Clean up formatting: ensure it's a clean object literal
-        const cleanCode = codeBlock.trim().replace(/,$/, '');
-
-        // Generate full file content
-        const fileContent = `import type { Release } from '../schema';
+        const fileContent = serializeRelease(toRelease(releaseData));
 
-export const release: Release = ${cleanCode};
-`;
-
-        const tempFile = path.join(os.tmpdir(), `yumerobo-${slug}.ts`);
+        const tempFile = path.join(os.tmpdir(), `yumerobo-${slug}.json`);
         await fs.writeFile(tempFile, fileContent, 'utf-8');
         tempManager.add(tempFile);
 
         console.log(`\n--- Preview (${tempFile}) ---\n`);
         console.log(fileContent.slice(0, 500) + '...');
+        await printMediaInfoLint(torrents);
 
         const action = await select({
             message: 'What to do?',
@@ -440,8 +694,7 @@ export const release: Release = ${cleanCode};
         });
 
         if (action === 'confirm') {
-            const targetPath = path.join(RELEASES_DIR, `${slug}.ts`);
-            await fs.writeFile(targetPath, fileContent, 'utf-8');
+            const targetPath = await writeRelease(toRelease(releaseData));
             console.log(`\n[+] Release saved to: ${targetPath}`);
             await stepTelegram(releaseData);
             await tempManager.cleanup();
@@ -452,38 +705,379 @@ export const release: Release = ${cleanCode};
             return;
         } else if (action === 'metadata') {
             const newMeta = await stepMetadata();
-            if (newMeta) metadata = newMeta;
+            if (newMeta) {
+                metadata = { ...newMeta, ...await stepEpisodes(newMeta, torrents) };
+                backdrop = await stepBackdrop(slug, newMeta.backdrop_path);
+            }
         } else if (action === 'poster') {
             posterPath = await stepPoster(slug);
         } else if (action === 'torrents') {
-            torrents = await stepTorrents();
+            torrents = await stepTorrents(slug);
+            metadata = { ...metadata, ...await stepEpisodes(metadata, torrents) };
         } else if (action === 'specs') {
             specs = await stepSpecs();
         } else if (action === 'links') {
-            links = await stepLinks(metadata.tmdb_id, metadata.media_type);
+            links = await stepLinks(metadata.tmdb_id, metadata.media_type, metadata.external_ids);
         }
     }
 }
 
-async function getReleases() {
-    const files = await fs.readdir(RELEASES_DIR);
-    const releases = [];
-    for (const file of files) {
-        if (!file.endsWith('.ts')) continue;
-        const filePath = path.join(RELEASES_DIR, file);
+/**
+ * Non-interactive create: resolve everything from a manifest, then write the release
+ */
+async function createFromManifest(manifestPath: string) {
+    console.log('\n=== Create Release from Manifest ===\n');
+
+    let manifest: ReleaseManifest;
+    try {
+        manifest = await loadManifest(manifestPath);
+    } catch (e) {
+        console.log(`[!] ${e instanceof ManifestError ? e.message : e}`);
+        process.exitCode = 1;
+        return;
+    }
+
+    // Metadata: TMDB first, manifest fields override
+    let metadata: TMDBMetadata | null = null;
+    if (manifest.tmdb !== undefined) {
+        const tmdbRef = String(manifest.tmdb);
+        const [type, id] = tmdbRef.includes('/')
+            ? [tmdbRef.split('/')[0] as 'movie' | 'tv', parseInt(tmdbRef.split('/')[1])]
+            : [undefined, parseInt(tmdbRef)];
+
+        let candidates: TMDBMetadata[];
         try {
-            const mod = await import(filePath);
-            if (mod.release) {
-                releases.push({
-                    name: `[${mod.release.date.split('T')[0]}] ${mod.release.title} (${mod.release.slug})`,
-                    value: { slug: mod.release.slug, data: mod.release, path: filePath }
-                });
-            }
+            candidates = await getMetadataById(id, type);
         } catch (e) {
-            // skip
+            console.log(`[!] TMDB lookup failed for ${tmdbRef}: ${describeTMDBError(e)}`);
+            process.exitCode = 1;
+            return;
+        }
+        if (candidates.length !== 1) {
+            console.log(candidates.length === 0
+                ? `[!] TMDB lookup failed for ${tmdbRef}: No results found`
+                : `[!] TMDB ID ${tmdbRef} is ambiguous, use movie/${id} or tv/${id}`);
+            process.exitCode = 1;
+            return;
         }
+        metadata = candidates[0];
+
+        const seasons = metadata.seasons?.map(s => s.season_number) ?? [];
+        if (manifest.season !== undefined && seasons.length > 0 && !seasons.includes(manifest.season)) {
+            console.log(`[!] TMDB ${tmdbRef} has no season ${manifest.season} (seasons: ${seasons.join(', ')})`);
+            process.exitCode = 1;
+            return;
+        }
+
+        // Same check as promptEpisodes; single-season shows are stored without a season number
+        const range = manifest.episodes ? parseEpisodeRange(manifest.episodes) : undefined;
+        const total = metadata.seasons?.find(s => s.season_number === (manifest.season ?? 1))?.episode_count;
+        if (range && total !== undefined && range.end > total) {
+            console.log(`[!] episodes ${manifest.episodes}: TMDB ${tmdbRef} only lists ${total} episode(s) in season ${manifest.season ?? 1}`);
+            process.exitCode = 1;
+            return;
+        }
+    }
+
+    // Read every input before writing any asset, so a bad path fails without leaving files behind
+    const inputs: { parsedTorrent: ParsedTorrent; mediainfo: string[] }[] = [];
+    let specs: SpecEntry[];
+    try {
+        for (const entry of manifest.torrents) {
+            const parsedTorrent = await parseTorrent(entry.path);
+            console.log(`[+] Parsed: ${parsedTorrent.name} (${parsedTorrent.files.length} files)`);
+            const mediainfo = await Promise.all(entry.mediainfo.map((miPath) => fs.readFile(miPath, 'utf-8')));
+            inputs.push({ parsedTorrent, mediainfo });
+        }
+        specs = parseBBCodeSpecs(await fs.readFile(manifest.specs, 'utf-8'));
+    } catch (e) {
+        console.log(`[!] Failed to read manifest inputs: ${e}`);
+        process.exitCode = 1;
+        return;
+    }
+    if (specs.length === 0) {
+        console.log('[!] No [quote=Title] blocks found in specs file');
     }
-    return releases.sort((a, b) => b.name.localeCompare(a.name));
+
+    const slug = generateHash(8);
+    console.log(`Slug: ${slug}`);
+
+    // Assets are temporary until the release JSON is written
+    const assets: string[] = [];
+    const track = (publicPath: string) => {
+        const filePath = toStaticPath(publicPath);
+        assets.push(filePath);
+        tempManager.add(filePath);
+    };
+
+    let posterPath: string;
+    let backdrop: string | undefined;
+    const torrents: TorrentEntry[] = [];
+    try {
+        posterPath = await processPoster(manifest.poster, slug);
+        track(posterPath);
+        track(getOgPath(posterPath));
+        backdrop = await stepBackdrop(slug, metadata?.backdrop_path);
+        if (backdrop) track(backdrop);
+
+        for (const [i, entry] of manifest.torrents.entries()) {
+            const { parsedTorrent, mediainfo: contents } = inputs[i];
+
+            const mediainfo: MediaInfoEntry[] = [];
+            for (const content of contents) {
+                const saved = await saveMediaInfo(content);
+                track(`/mediainfo/${saved.raw_hash}`);
+                mediainfo.push(saved);
+                console.log(`[+] Saved: ${saved.filename} -> ${saved.raw_hash}`);
+            }
+
+            const torrent: TorrentEntry = {
+                ...parsedTorrent,
+                display_name: entry.display_name ?? await suggestDisplayName(parsedTorrent.name, mediainfo, entry.group),
+                mediainfo,
+                group: entry.group
+            };
+            if (entry.publish) {
+                await publishTorrentFile(entry.path, slug, torrent, entry.strip_passkeys);
+                track(torrent.torrent_file!);
+            }
+            torrents.push(torrent);
+        }
+    } catch (e) {
+        console.log(`[!] Failed to write release assets: ${e}`);
+        await tempManager.cleanup();
+        process.exitCode = 1;
+        return;
+    }
+
+    const tmdbId = metadata?.tmdb_id ?? 0;
+    const mediaType = manifest.media_type ?? metadata!.media_type;
+    const links: Record<string, string> = {};
+    if (tmdbId > 0) {
+        links.tmdb = `https://www.themoviedb.org/${mediaType}/${tmdbId}`;
+    }
+    for (const url of manifest.links ?? []) {
+        links[detectPlatform(url)!] = url;
+    }
+    // Not added unattended: TMDB's external IDs need a human to confirm them
+    for (const [platform, url] of Object.entries(buildExternalLinks(metadata?.external_ids ?? {}))) {
+        if (!links[platform]) console.log(`[i] TMDB suggests ${platform}: ${url} (add it to "links" to include)`);
+    }
+
+    const titleEn = manifest.title_en ?? metadata!.title_en;
+    const releaseData: ReleaseData = {
+        slug,
+        title: titleEn,
+        title_en: titleEn,
+        title_zh: manifest.title_zh ?? metadata!.title_zh,
+        date: new Date().toISOString(),
+        tmdb_id: tmdbId,
+        media_type: mediaType,
+        special_type: manifest.special_type,
+        year: manifest.year ?? metadata!.year,
+        ...(metadata ? getReleaseDetails(metadata) : {}),
+        poster: posterPath,
+        backdrop,
+        torrents,
+        specs,
+        links,
+        season: manifest.season,
+        badge_label: manifest.badge_label,
+        episode_range: manifest.episodes ? parseEpisodeRange(manifest.episodes) : undefined,
+        is_complete: manifest.is_complete
+    };
+
+    if (mediaType === 'tv') {
+        await printEpisodeCoverage(tmdbId, manifest.season, torrents);
+    }
+
+    await printMediaInfoLint(torrents);
+    let targetPath: string;
+    try {
+        targetPath = await writeRelease(toRelease(releaseData));
+    } catch (e) {
+        console.log(`[!] Failed to write release: ${e}`);
+        await tempManager.cleanup();
+        process.exitCode = 1;
+        return;
+    }
+    assets.forEach((filePath) => tempManager.keep(filePath));
+    console.log(`\n[+] Release saved to: ${targetPath}`);
+}
+
+async function getReleases() {
+    const entries = await loadReleases();
+    return entries.map(({ path: filePath, release }) => ({
+        name: `[${release.date.split('T')[0]}] ${release.title} (${release.slug})`,
+        value: { slug: release.slug, data: release, path: filePath }
+    }));
+}
+
+/**
+ * Parse a --since/--until value; date-only "until" covers the whole day
+ */
+function parseDateArg(value: string | undefined, endOfDay = false): Date | undefined {
+    if (!value) return undefined;
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+        throw new Error(`Invalid date: ${value}`);
+    }
+    if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        date.setUTCHours(23, 59, 59, 999);
+    }
+    return date;
+}
+
+/**
+ * Parse a --year value (four digits)
+ */
+function parseYearArg(value: string | undefined): number | undefined {
+    if (!value) return undefined;
+    if (!/^\d{4}$/.test(value)) {
+        throw new Error(`Invalid year: ${value}`);
+    }
+    return parseInt(value);
+}
+
+/**
+ * Parse a --type value (media_type or special_type, case-insensitive)
+ */
+function parseTypeArg(value: string | undefined): string | undefined {
+    if (!value) return undefined;
+    const type = value.toLowerCase();
+    if (!MediaTypeSchema.safeParse(type).success) {
+        throw new Error(`Invalid type: ${value} (expected ${MediaTypeSchema.options.join(', ')})`);
+    }
+    return type;
+}
+
+const LIST_USAGE = 'Usage: bun run cli list [--type <type>] [--year <yyyy>] [--group <tag>] [--since <date>] [--until <date>] [--title <text>] [--json]';
+
+async function list(args: string[]) {
+    let values;
+    let filters: ReleaseFilters;
+    try {
+        ({ values } = parseArgs({
+            args,
+            options: {
+                type: { type: 'string' },
+                year: { type: 'string' },
+                group: { type: 'string' },
+                since: { type: 'string' },
+                until: { type: 'string' },
+                title: { type: 'string' },
+                json: { type: 'boolean', default: false }
+            }
+        }));
+
+        filters = {
+            type: parseTypeArg(values.type),
+            year: parseYearArg(values.year),
+            group: values.group,
+            since: parseDateArg(values.since),
+            until: parseDateArg(values.until, true),
+            title: values.title
+        };
+    } catch (e) {
+        console.log(`[!] ${e instanceof Error ? e.message : e}`);
+        console.log(LIST_USAGE);
+        process.exitCode = 1;
+        return;
+    }
+
+    const releases = filterReleases((await loadReleases()).map(e => e.release), filters);
+
+    if (values.json) {
+        console.log(JSON.stringify(releases, null, 2));
+        return;
+    }
+
+    if (releases.length === 0) {
+        console.log('No releases found.');
+        return;
+    }
+
+    const rows = releases.map(r => [
+        r.date.split('T')[0],
+        r.slug,
+        getReleaseBadges(r).join(' '),
+        String(r.year ?? ''),
+        r.title,
+        formatSize(r.torrents.reduce((sum, t) => sum + getTotalSize(t.files), 0))
+    ]);
+    const header = ['Date', 'Slug', 'Badges', 'Year', 'Title', 'Size'];
+    const widths = header.map((h, i) => Math.max(h.length, ...rows.map(row => row[i].length)));
+    const formatRow = (row: string[]) => row.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd();
+
+    console.log(formatRow(header));
+    console.log(widths.map(w => '-'.repeat(w)).join('  '));
+    for (const row of rows) {
+        console.log(formatRow(row));
+    }
+    console.log(`\n${releases.length} release(s)`);
+}
+
+async function show(slug: string) {
+    if (!slug) {
+        console.log('[!] Slug required for show. Usage: bun run cli show <slug>');
+        return;
+    }
+
+    const entry = (await loadReleases()).find(e => e.release.slug === slug);
+    if (!entry) {
+        console.log(`[!] Release ${slug} not found`);
+        process.exitCode = 1;
+        return;
+    }
+    const release = entry.release;
+
+    console.log(`\n=== ${release.title} (${release.slug}) ===\n`);
+    console.log(`  Title (EN): ${release.title_en ?? '-'}`);
+    console.log(`  Title (ZH): ${release.title_zh ?? '-'}`);
+    console.log(`  Date:       ${release.date}`);
+    console.log(`  Year:       ${release.year ?? '-'}`);
+    console.log(`  Type:       ${release.media_type}${release.special_type ? ` / ${release.special_type}` : ''}`);
+    console.log(`  Badges:     ${getReleaseBadges(release).join(', ')}`);
+    console.log(`  TMDB ID:    ${release.tmdb_id || '-'}`);
+    console.log(`  Poster:     ${release.poster}`);
+    console.log(`  File:       ${entry.path}`);
+
+    console.log('\n--- Torrents ---');
+    for (const [i, torrent] of release.torrents.entries()) {
+        console.log(`\n  [${i + 1}] ${torrent.name}`);
+        console.log(`      Display: ${torrent.display_name}`);
+        console.log(`      Files:   ${torrent.files.length} (${formatSize(getTotalSize(torrent.files))})`);
+        if (torrent.info_hash) console.log(`      BTIH v1: ${torrent.info_hash}`);
+        if (torrent.info_hash_v2) console.log(`      BTIH v2: ${torrent.info_hash_v2}`);
+        for (const mi of torrent.mediainfo) {
+            let summary: string;
+            try {
+                const raw = await fs.readFile(path.join(STATIC_PATH, 'mediainfo', mi.raw_hash), 'utf-8');
+                const result = mi.kind === 'bdinfo' ? parseBDInfoAndSummarize(raw) : parseAndSummarize(raw);
+                summary = result.summary || '(no summary)';
+            } catch {
+                summary = '(raw file missing)';
+            }
+            console.log(`      ${mi.kind === 'bdinfo' ? 'BDInfo:   ' : 'MediaInfo:'} ${mi.filename} [${mi.raw_hash}]`);
+            console.log(`        ${summary}`);
+        }
+    }
+
+    if (release.specs?.length) {
+        console.log('\n--- Specs ---');
+        for (const spec of release.specs) {
+            console.log(`  - ${spec.title}`);
+        }
+    }
+
+    const links = Object.entries(release.links ?? {}).filter(([, url]) => url);
+    if (links.length > 0) {
+        console.log('\n--- Links ---');
+        for (const [platform, url] of links) {
+            console.log(`  ${platform.padEnd(16)}${url}`);
+        }
+    }
+    console.log('');
 }
 
 async function edit() {
@@ -508,12 +1102,13 @@ async function edit() {
         special_type: currentData.special_type,
         season: currentData.season,
         badge_label: currentData.badge_label,
-        is_complete: currentData.is_complete
+        episode_range: currentData.episode_range,
+        is_complete: currentData.is_complete,
+        ...getReleaseDetails(currentData)
     };
     let posterPath = currentData.poster;
-    let torrents = currentData.torrents;
-    let specs = currentData.specs;
-    let links = currentData.links;
+    let backdrop = currentData.backdrop;
+    let { torrents, specs, links } = fromRelease(currentData);
     let date = currentData.date;
 
     while (true) {
@@ -545,59 +1140,221 @@ async function edit() {
                 special_type: metadata.special_type,
                 season: metadata.season,
                 badge_label: metadata.badge_label,
+                episode_range: metadata.episode_range,
                 is_complete: metadata.is_complete,
+                ...getReleaseDetails(metadata),
                 poster: posterPath,
+                backdrop,
                 torrents,
                 specs,
                 links
             };
-            const codeBlock = generateReleaseCode(updatedData);
-            const cleanCode = codeBlock.trim().replace(/,$/, '');
-            const fileContent = `import type { Release } from '../schema';
-
-export const release: Release = ${cleanCode};
-`;
-            await fs.writeFile(filePath, fileContent);
+            await writeRelease(toRelease(updatedData), filePath);
             console.log(`[+] Saved changes to ${filePath}`);
             return;
         }
 
         if (action === 'metadata') {
             const newMeta = await stepMetadata();
-            if (newMeta) metadata = newMeta;
+            if (newMeta) {
+                // Hand-curated aliases stay; TMDB's are added after them
+                const aliases = [...new Set([...(metadata.aliases ?? []), ...(newMeta.aliases ?? [])])];
+                metadata = {
+                    ...newMeta,
+                    ...await stepEpisodes(newMeta, torrents),
+                    aliases: aliases.length ? aliases : undefined
+                };
+                backdrop = await stepBackdrop(slug, newMeta.backdrop_path) ?? backdrop;
+            }
         } else if (action === 'poster') {
             posterPath = await stepPoster(slug);
         } else if (action === 'torrents') {
-            torrents = await stepTorrents();
+            torrents = await stepTorrents(slug);
+            await printMediaInfoLint(torrents);
+            metadata = { ...metadata, ...await stepEpisodes(metadata, torrents) };
         } else if (action === 'specs') {
             specs = await stepSpecs();
         } else if (action === 'links') {
-            links = await stepLinks(metadata.tmdb_id, metadata.media_type);
+            links = await stepLinks(metadata.tmdb_id, metadata.media_type, metadata.external_ids);
+        }
+    }
+}
+
+async function validate() {
+    console.log('\n=== Validate Releases ===\n');
+    const reports = await validateCatalogue();
+    if (reports.length === 0) {
+        console.log('No releases found.');
+        return;
+    }
+
+    let failed = 0;
+    for (const report of reports) {
+        const label = report.slug ? `${report.slug} (${report.file})` : report.file;
+        if (report.errors.length === 0) {
+            console.log(`[✓] ${label}`);
+        } else {
+            failed++;
+            console.log(`[✗] ${label}`);
+            for (const error of report.errors) {
+                console.log(`    - ${error}`);
+            }
+        }
+        // Inconsistent episodes are worth a look but don't fail validation
+        for (const warning of report.warnings) {
+            console.log(`    [!] ${warning}`);
+        }
+    }
+
+    console.log(`\n${reports.length - failed}/${reports.length} release(s) valid`);
+    if (failed > 0) {
+        process.exitCode = 1;
+    }
+}
+
+function printVerifyResult(result: VerifyResult): boolean {
+    console.log(`Data: ${result.root}\n`);
+    for (const file of result.files) {
+        const size = formatSize(file.size);
+        switch (file.status) {
+            case 'ok':
+                console.log(`[✓] ${file.path} (${size})`);
+                break;
+            case 'corrupt':
+                console.log(`[✗] ${file.path} (${file.badPieces + file.sharedBadPieces}/${file.totalPieces} pieces failed)`);
+                break;
+            case 'boundary':
+                console.log(`[!] ${file.path} (inconclusive: ${file.sharedBadPieces} failed piece(s) shared with a neighbouring file)`);
+                break;
+            case 'missing':
+                console.log(`[✗] ${file.path} (missing)`);
+                break;
+            case 'size-mismatch':
+                console.log(`[✗] ${file.path} (size mismatch, expected ${size})`);
+                break;
+        }
+    }
+    for (const file of result.extra) {
+        console.log(`[!] Extra file: ${file}`);
+    }
+
+    const ok = result.files.filter(f => f.status === 'ok').length;
+    const inconclusive = result.files.filter(f => f.status === 'boundary').length;
+    console.log(`\nPieces: ${result.piecesOk}/${result.piecesTotal} OK, files: ${ok}/${result.files.length} OK`
+        + (inconclusive > 0 ? `, ${inconclusive} inconclusive` : ''));
+    return ok === result.files.length && result.piecesOk === result.piecesTotal;
+}
+
+/**
+ * Verify local data against a .torrent file or the published torrents of a release
+ */
+async function verify(args: string[]) {
+    const { values, positionals } = parseArgs({
+        args,
+        options: { data: { type: 'string', short: 'd' } },
+        allowPositionals: true
+    });
+    const target = positionals[0];
+    if (!target || !values.data) {
+        console.log('[!] Usage: bun run cli verify <slug|file.torrent> --data <dir>');
+        process.exitCode = 1;
+        return;
+    }
+
+    let torrentPaths: string[];
+    if (target.endsWith('.torrent')) {
+        torrentPaths = [target];
+    } else {
+        const entry = (await loadReleases()).find(e => e.release.slug === target);
+        if (!entry) {
+            console.log(`[!] Release ${target} not found`);
+            process.exitCode = 1;
+            return;
+        }
+        torrentPaths = entry.release.torrents
+            .filter(t => t.torrent_file)
+            .map(t => toStaticPath(t.torrent_file!));
+        if (torrentPaths.length === 0) {
+            console.log(`[!] Release ${target} has no published .torrent files, pass the .torrent path instead`);
+            process.exitCode = 1;
+            return;
+        }
+    }
+
+    for (const torrentPath of torrentPaths) {
+        try {
+            const result = await verifyTorrent(torrentPath, values.data);
+            console.log(`\n=== Verify ${result.name} ===\n`);
+            if (!printVerifyResult(result)) {
+                process.exitCode = 1;
+            }
+        } catch (e) {
+            console.log(`[✗] ${torrentPath}: ${e instanceof Error ? e.message : e}`);
+            process.exitCode = 1;
         }
     }
 }
 
+async function gc(args: string[]) {
+    const { values } = parseArgs({
+        args,
+        options: { yes: { type: 'boolean', short: 'y', default: false } }
+    });
+
+    console.log('\n=== Garbage Collect Assets ===\n');
+
+    // A release that fails to load would make its assets look orphaned
+    const failed: string[] = [];
+    const entries = await loadReleases((file) => failed.push(file));
+    if (failed.length > 0) {
+        console.log(`[!] Could not load: ${failed.join(', ')}`);
+        console.log('[!] Fix these releases first (see: bun run cli validate)');
+        process.exitCode = 1;
+        return;
+    }
+
+    const orphans = await findOrphanedAssets(entries.map(e => e.release));
+    if (orphans.length === 0) {
+        console.log('[✓] No orphaned assets');
+        return;
+    }
+
+    for (const orphan of orphans) {
+        console.log(`  ${formatSize(orphan.size).padStart(12)}  ${path.relative(process.cwd(), orphan.path)}`);
+    }
+    const total = orphans.reduce((sum, o) => sum + o.size, 0);
+    console.log(`\n${orphans.length} orphaned file(s), ${formatSize(total)} total`);
+
+    const shouldDelete = values.yes || await confirm({ message: 'Delete these files?', default: false });
+    if (!shouldDelete) return;
+
+    for (const orphan of orphans) {
+        await fs.unlink(orphan.path);
+    }
+    await removeEmptyAssetDirs();
+    console.log(`[+] Deleted ${orphans.length} file(s)`);
+}
+
 async function deleteRelease(slug: string) {
     if (!slug) {
         console.log('[!] Slug required for delete. Usage: bun run cli delete <slug>');
         return;
     }
-    const targetPath = path.join(RELEASES_DIR, `${slug}.ts`);
+    const targetPath = getReleasePath(slug);
     try {
         await fs.access(targetPath);
 
         // Load release data to find associated files
         let releaseData: any = null;
         try {
-            const mod = await import(targetPath);
-            releaseData = mod.release;
+            releaseData = await readRelease(targetPath);
         } catch (e) {
-            console.log('[!] Could not parse release file, will only delete .ts file');
+            console.log('[!] Could not parse release file, will only delete .json file');
         }
 
         const shouldDelete = await confirm({ message: `Delete release ${slug}? This cannot be undone.`, default: false });
         if (shouldDelete) {
-            // Delete the .ts file
+            // Delete the .json file
             await fs.unlink(targetPath);
             console.log(`[+] Deleted ${targetPath}`);
 
@@ -613,6 +1370,18 @@ async function deleteRelease(slug: string) {
                 }
             }
 
+            // Delete backdrop if exists
+            if (releaseData?.backdrop) {
+                const backdropPath = path.join(STATIC_PATH, releaseData.backdrop);
+                try {
+                    await fs.access(backdropPath);
+                    await fs.unlink(backdropPath);
+                    console.log(`[+] Deleted backdrop: ${backdropPath}`);
+                } catch {
+                    // Backdrop doesn't exist or already deleted
+                }
+            }
+
             // Delete mediainfo files
             if (releaseData?.torrents) {
                 for (const torrent of releaseData.torrents) {
@@ -631,6 +1400,16 @@ async function deleteRelease(slug: string) {
                 }
             }
 
+            // Delete published .torrent files
+            const torrentsDir = path.join(STATIC_PATH, 'torrents', slug);
+            try {
+                await fs.access(torrentsDir);
+                await fs.rm(torrentsDir, { recursive: true });
+                console.log(`[+] Deleted torrent files: ${torrentsDir}`);
+            } catch {
+                // Nothing was published for this release
+            }
+
             console.log(`[✓] Release ${slug} fully deleted`);
         }
     } catch {
@@ -638,6 +1417,53 @@ async function deleteRelease(slug: string) {
     }
 }
 
+/**
+ * One-shot migration from generated TypeScript modules to JSON data files
+ */
+async function migrate() {
+    console.log('\n=== Migrate Releases to JSON ===\n');
+    const legacy = await loadLegacyReleases((file, e) => {
+        console.log(`[!] ${file}: failed to import (${e instanceof Error ? e.message : e})`);
+        process.exitCode = 1;
+    });
+
+    if (legacy.length === 0) {
+        console.log('No .ts releases to migrate.');
+        return;
+    }
+
+    let migrated = 0;
+    for (const { path: tsPath, release } of legacy) {
+        const file = path.basename(tsPath);
+        const result = safeValidateRelease(release);
+        if (!result.success) {
+            console.log(`[!] ${file}: does not match ReleaseSchema, skipped`);
+            for (const issue of result.error.issues) {
+                console.log(`    - ${issue.path.join('.') || '(root)'}: ${issue.message}`);
+            }
+            process.exitCode = 1;
+            continue;
+        }
+
+        const jsonPath = path.join(path.dirname(tsPath), `${path.parse(tsPath).name}.json`);
+        try {
+            await fs.access(jsonPath);
+            console.log(`[!] ${file}: ${path.basename(jsonPath)} already exists, skipped`);
+            process.exitCode = 1;
+            continue;
+        } catch {
+            // Target free
+        }
+
+        await writeRelease(result.data, jsonPath);
+        await fs.unlink(tsPath);
+        migrated++;
+        console.log(`[+] ${file} -> ${path.basename(jsonPath)}`);
+    }
+
+    console.log(`\n${migrated}/${legacy.length} release(s) migrated`);
+}
+
 async function deploy() {
     console.log('\n=== Deploy to Cloudflare ===\n');
     try {
@@ -671,8 +1497,35 @@ async function main() {
     const command = args[0] || 'create';
 
     switch (command) {
-        case 'create':
-            await create();
+        case 'create': {
+            const { values } = parseArgs({
+                args: args.slice(1),
+                options: { from: { type: 'string' } }
+            });
+            if (values.from) {
+                await createFromManifest(values.from);
+            } else {
+                await create();
+            }
+            break;
+        }
+        case 'list':
+            await list(args.slice(1));
+            break;
+        case 'show':
+            await show(args[1]);
+            break;
+        case 'validate':
+            await validate();
+            break;
+        case 'migrate':
+            await migrate();
+            break;
+        case 'verify':
+            await verify(args.slice(1));
+            break;
+        case 'gc':
+            await gc(args.slice(1));
             break;
         case 'delete':
             await deleteRelease(args[1]);
@@ -685,7 +1538,7 @@ async function main() {
             break;
         default:
             console.log(`[!] Unknown command: ${command}`);
-            console.log('Usage: bun run cli [create|delete <slug>|deploy]');
+            console.log('Usage: bun run cli [create [--from <manifest>]|edit|list|show <slug>|validate|verify <slug|torrent> --data <dir>|gc [--yes]|migrate|delete <slug>|deploy]');
     }
 }
 
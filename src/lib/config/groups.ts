@@ -0,0 +1,72 @@
+/**
+ * Release group registry
+ * Single source for group names, tags and aliases (site pages, CLI, Telegram captions)
+ */
+
+export interface ReleaseGroup {
+    tag: string;                        // Short tag used in display names and URLs: "KWTR"
+    name: string;                       // Full name: "Kawatare"
+    aliases?: string[];                 // Other spellings seen in torrent names
+    description?: string;
+    logo?: string;                      // Path under static/, e.g. "/groups/kwtr.png"
+    links?: Record<string, string>;     // Label -> URL
+}
+
+export const groups: ReleaseGroup[] = [
+    {
+        tag: 'NTYK',
+        name: 'Natuyuki'
+    },
+    {
+        tag: 'KWTR',
+        name: 'Kawatare'
+    },
+    {
+        tag: 'TSKR',
+        name: 'Tasokare'
+    }
+];
+
+function getKeywords(group: ReleaseGroup): string[] {
+    return [group.tag, group.name, ...(group.aliases ?? [])];
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Every tag, name and alias in the registry (e.g. for bolding in captions)
+ */
+export function getGroupKeywords(): string[] {
+    return groups.flatMap(getKeywords);
+}
+
+/**
+ * Look up a group by tag, name or alias (case-insensitive)
+ */
+export function getGroupByTag(tag: string): ReleaseGroup | undefined {
+    const needle = tag.toLowerCase();
+    return groups.find((g) => getKeywords(g).some((k) => k.toLowerCase() === needle));
+}
+
+/**
+ * Detect the group from a torrent name
+ * "[KWTR] Title ..." first, then any registered keyword as a whole word
+ */
+export function detectGroup(torrentName: string): ReleaseGroup | undefined {
+    const bracket = torrentName.match(/^\s*\[([^\]]+)\]/);
+    const tagged = bracket ? getGroupByTag(bracket[1].trim()) : undefined;
+    if (tagged) return tagged;
+
+    return groups.find((g) =>
+        getKeywords(g).some((k) => new RegExp(`\\b${escapeRegExp(k)}\\b`, 'i').test(torrentName))
+    );
+}
+
+/**
+ * Group of a torrent: a stored tag wins over detection from its name ('' = no group)
+ */
+export function getTorrentGroup(torrent: { name: string; group?: string }): ReleaseGroup | undefined {
+    return torrent.group !== undefined ? getGroupByTag(torrent.group) : detectGroup(torrent.name);
+}
@@ -0,0 +1,101 @@
+/**
+ * Release facets for home page filtering
+ * Media facets (resolution / codec / HDR) are precomputed from MediaInfo at build time,
+ * everything else comes straight from the release data
+ */
+import type { Release } from './schema';
+import { getTorrentGroup } from '$lib/config/groups';
+import { getHDRInfo, getResolution, type MediaInfoStructured } from '$lib/utils/mediainfo-parser';
+
+export const FILTER_KEYS = ['type', 'group', 'year', 'res', 'codec', 'hdr', 'complete'] as const;
+export type FilterKey = typeof FILTER_KEYS[number];
+
+/** Active filters, one value per key (mirrors the URL query string) */
+export type ReleaseFilters = Partial<Record<FilterKey, string>>;
+
+export interface MediaFacets {
+    res: string[];
+    codec: string[];
+    hdr: string[];
+}
+
+const TYPE_LABELS: Record<string, string> = {
+    movie: 'Movie',
+    tv: 'TV',
+    tva: 'TVA',
+    ova: 'OVA',
+    ona: 'ONA',
+    special: 'SP'
+};
+
+// Sort order for options that aren't plain alphabetical
+const RES_ORDER = ['4K', '1080p', '720p', '576p', '480p'];
+const TYPE_ORDER = Object.values(TYPE_LABELS);
+
+function unique(values: (string | undefined)[]): string[] {
+    return [...new Set(values.filter((v): v is string => !!v))];
+}
+
+/**
+ * Resolution, codec and HDR values across a release's MediaInfo (one entry per torrent)
+ */
+export function getMediaFacets(structured: MediaInfoStructured[]): MediaFacets {
+    const videos = structured.map((s) => s.video?.[0]);
+    return {
+        res: unique(videos.map((v) => getResolution(v?.width, v?.height))),
+        codec: unique(videos.map((v) => v?.format)),
+        // "DV P8 + HDR10" -> ["DV", "HDR10"]
+        hdr: unique(structured.flatMap((s) => getHDRInfo(s.video).split(' + ').map((f) => f.replace(/^DV P\d+$/, 'DV'))))
+    };
+}
+
+/**
+ * Every facet value of a release, keyed like the filters
+ */
+export function getReleaseFacets(release: Release, media?: MediaFacets): Record<FilterKey, string[]> {
+    return {
+        type: [TYPE_LABELS[release.special_type ?? release.media_type]],
+        group: unique(release.torrents.map((t) => getTorrentGroup(t)?.tag)),
+        year: release.year ? [String(release.year)] : [],
+        res: media?.res ?? [],
+        codec: media?.codec ?? [],
+        hdr: media?.hdr ?? [],
+        complete: release.is_complete ? ['1'] : []
+    };
+}
+
+/**
+ * Read filters from a query string (unknown keys and empty values are ignored)
+ */
+export function parseFilters(params: URLSearchParams): ReleaseFilters {
+    const filters: ReleaseFilters = {};
+    for (const key of FILTER_KEYS) {
+        const value = params.get(key);
+        if (value) filters[key] = value;
+    }
+    return filters;
+}
+
+export function matchesFilters(facets: Record<FilterKey, string[]>, filters: ReleaseFilters): boolean {
+    return FILTER_KEYS.every((key) => !filters[key] || facets[key].includes(filters[key]!));
+}
+
+/**
+ * Available options per facet across all releases, in display order
+ */
+export function getFilterOptions(facets: Record<FilterKey, string[]>[]): Record<FilterKey, string[]> {
+    const options = {} as Record<FilterKey, string[]>;
+    for (const key of FILTER_KEYS) {
+        options[key] = unique(facets.flatMap((f) => f[key]));
+    }
+
+    const byOrder = (order: string[]) => (a: string, b: string) =>
+        (order.indexOf(a) + 1 || Infinity) - (order.indexOf(b) + 1 || Infinity) || a.localeCompare(b);
+    options.type.sort(byOrder(TYPE_ORDER));
+    options.res.sort(byOrder(RES_ORDER));
+    options.year.sort((a, b) => Number(b) - Number(a));
+    options.group.sort();
+    options.codec.sort();
+    options.hdr.sort();
+    return options;
+}
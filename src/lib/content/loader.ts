@@ -1,34 +1,46 @@
-import type { Release } from './schema';
+import { safeValidateRelease, type Release, type TorrentEntry } from './schema';
+import { getTorrentGroup } from '$lib/config/groups';
+
+let cache: Release[] | null = null;
 
 /**
  * Retrieves all release data from the file system.
  * 
- * Uses Vite's `import.meta.glob` with `{ eager: true }` to bundle all `.ts` files 
+ * Uses Vite's `import.meta.glob` with `{ eager: true }` to bundle all `.json` files 
  * in the `releases/` directory at build time. This enables Static Site Generation (SSG)
- * without an external database.
+ * without an external database. Every file is validated against `ReleaseSchema`,
+ * so a malformed release fails the build instead of rendering a blank page.
  * 
  * @returns {Release[]} List of releases sorted by date (descending)
  */
 export function getAllReleases(): Release[] {
-    const modules = import.meta.glob('./releases/*.ts', { eager: true });
+    if (cache) return cache;
+
+    const files = import.meta.glob<unknown>('./releases/*.json', { eager: true, import: 'default' });
 
     const releases: Release[] = [];
 
-    for (const path in modules) {
-        const mod = modules[path] as { release: Release };
-        if (mod.release) {
-            releases.push(mod.release);
+    for (const path in files) {
+        const result = safeValidateRelease(files[path]);
+        if (!result.success) {
+            const issues = result.error.issues
+                .map((issue) => `  - ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+                .join('\n');
+            throw new Error(`Invalid release ${path}:\n${issues}`);
         }
+        releases.push(result.data);
     }
 
-    return releases.sort(
+    cache = releases.sort(
         (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
     );
+    return cache;
 }
 
 /**
  * Searches releases by title (original, English, or Chinese).
- * Case-insensitive substring match.
+ * Case-insensitive substring match, used until the prebuilt search index
+ * (`$lib/content/search`) has loaded in the browser.
  * 
  * @param {string} query - Search term
  * @returns {Release[]} Filtered list of releases
@@ -43,6 +55,21 @@ export function searchReleases(query: string): Release[] {
     );
 }
 
+/**
+ * Retrieves every torrent attributed to a release group, newest release first.
+ * A torrent's stored `group` wins over detection from its name.
+ * 
+ * @param {string} tag - Group tag (e.g., 'KWTR')
+ * @returns {{ release: Release; torrent: TorrentEntry }[]} Matching torrents with their release
+ */
+export function getTorrentsByGroup(tag: string): { release: Release; torrent: TorrentEntry }[] {
+    return getAllReleases().flatMap((release) =>
+        release.torrents
+            .filter((torrent) => getTorrentGroup(torrent)?.tag === tag)
+            .map((torrent) => ({ release, torrent }))
+    );
+}
+
 /**
  * Retrieves a single release by its unique slug.
  * 
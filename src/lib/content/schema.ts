@@ -22,8 +22,9 @@ export type MediaType = z.infer<typeof MediaTypeSchema>;
  * Summary is auto-generated from raw content
  */
 export const MediaInfoEntrySchema = z.object({
-    filename: z.string().describe('Video filename'),
-    raw_hash: z.string().describe('Hash ID pointing to static/mediainfo/[hash] raw text file')
+    filename: z.string().describe('Video filename (or BDInfo playlist)'),
+    raw_hash: z.string().describe('Hash ID pointing to static/mediainfo/[hash] raw text file'),
+    kind: z.enum(['mediainfo', 'bdinfo']).optional().describe('Report type of the raw file (defaults to mediainfo)')
 });
 
 /**
@@ -40,7 +41,12 @@ export const TorrentEntrySchema = z.object({
             size: z.number().optional()
         }))
     ).describe('Array of files/folders inside this torrent'),
-    mediainfo: z.array(MediaInfoEntrySchema).describe('MediaInfo entries for this torrent')
+    mediainfo: z.array(MediaInfoEntrySchema).describe('MediaInfo entries for this torrent'),
+    info_hash: z.string().regex(/^[0-9a-f]{40}$/).optional().describe('BitTorrent v1 info hash (hex SHA-1)'),
+    info_hash_v2: z.string().regex(/^[0-9a-f]{64}$/).optional().describe('BitTorrent v2 info hash (hex SHA-256, BEP 52)'),
+    trackers: z.array(z.string()).optional().describe('Tracker URLs from announce/announce-list'),
+    torrent_file: z.string().optional().describe('URL-encoded public path of the published .torrent (e.g. /torrents/<slug>/<file>.<hash>.torrent)'),
+    group: z.string().optional().describe('Release group tag from src/lib/config/groups.ts (detected from name when omitted)')
 });
 
 /**
@@ -60,6 +66,16 @@ export const ExternalLinksSchema = z.object({
 });
 export type ExternalLinks = z.infer<typeof ExternalLinksSchema>;
 
+/**
+ * Episode range schema
+ * Partial releases (e.g. the second cour of a season) cover only some episodes
+ */
+export const EpisodeRangeSchema = z.object({
+    start: z.number().int().min(0),
+    end: z.number().int().min(0)
+}).refine((range) => range.start <= range.end, { message: 'start must not be after end' });
+export type EpisodeRange = z.infer<typeof EpisodeRangeSchema>;
+
 /**
  * Main release post frontmatter schema
  */
@@ -71,6 +87,7 @@ export const ReleaseSchema = z.object({
     title: z.string().describe('Primary display title'),
     title_en: z.string().optional().describe('English title'),
     title_zh: z.string().optional().describe('Chinese title'),
+    aliases: z.array(z.string()).optional().describe('Alternative titles (romaji, abbreviations) used by search'),
 
     // Date
     date: z.string().datetime().or(z.string()).describe('Publication date in ISO format'),
@@ -82,14 +99,26 @@ export const ReleaseSchema = z.object({
     media_type: MediaTypeSchema.describe('Content type: movie, tv'),
     special_type: z.enum(['tva', 'ova', 'ona', 'special']).optional().describe('Special display type override'),
     season: z.number().optional().describe('Season number for series content'),
-    badge_label: z.string().optional().describe('Custom badge label override (e.g., "S01 Part1", "S01E13-E24")'),
+    episode_range: EpisodeRangeSchema.optional().describe('Episodes covered by a partial release (rendered as "S01E13-E24")'),
+    badge_label: z.string().optional().describe('Custom badge suffix (e.g., "Part 1")'),
     is_complete: z.boolean().optional().describe('Whether series is complete (shows "Fin" badge)'),
 
     // Additional metadata
     year: z.number().optional().describe('Release year'),
 
+    // TMDB details
+    overview_en: z.string().optional().describe('English synopsis'),
+    overview_zh: z.string().optional().describe('Chinese synopsis'),
+    genres: z.array(z.string()).optional().describe('Genre names (English)'),
+    runtime: z.number().optional().describe('Runtime in minutes (movies)'),
+    episode_count: z.number().optional().describe('Total episode count (TV)'),
+    original_title: z.string().optional().describe('Title in the original language'),
+    original_language: z.string().optional().describe('ISO 639-1 code of the original language'),
+    studios: z.array(z.string()).optional().describe('Production companies'),
+
     // Media assets
     poster: z.string().describe('Path to poster image'),
+    backdrop: z.string().optional().describe('Path to backdrop image'),
 
     // Torrent structure (multiple torrents with embedded MediaInfo)
     torrents: z.array(TorrentEntrySchema).describe('Array of torrent entries with file structure and MediaInfo'),
@@ -128,6 +157,14 @@ export function safeValidateRelease(
     return ReleaseSchema.safeParse(data);
 }
 
+/**
+ * "E13-E24" (or "E05" for a single episode)
+ */
+export function formatEpisodeRange(range: EpisodeRange): string {
+    const pad = (n: number) => `E${n.toString().padStart(2, '0')}`;
+    return range.start === range.end ? pad(range.start) : `${pad(range.start)}-${pad(range.end)}`;
+}
+
 /**
  * Get display badge(s) for a release
  * Returns array of badge strings to display
@@ -171,6 +208,12 @@ export function getReleaseBadges(release: Release): string[] {
         }
     }
 
+    // Episode range joins the season ("S01E13-E24"), otherwise follows the type ("TV E13-E24")
+    if (release.episode_range) {
+        const range = formatEpisodeRange(release.episode_range);
+        baseBadge = release.season ? `${baseBadge}${range}` : `${baseBadge} ${range}`;
+    }
+
     badges.push(baseBadge);
 
     // If custom badge_label is set, append it as suffix
@@ -0,0 +1,251 @@
+/**
+ * Release search
+ * The index is built once at build time (see $lib/server/search-index), served as
+ * /search-index.json and fetched by the browser the first time someone searches.
+ * Matching runs entirely client-side: substrings, pinyin / initials for Chinese text,
+ * and typo-tolerant word matching.
+ */
+
+export type SearchFieldKind = 'title' | 'alias' | 'group' | 'torrent';
+
+export interface SearchField {
+    kind: SearchFieldKind;
+    text: string;
+    /** Lowercase pinyin per character (code point) of `text`, only for text containing Chinese */
+    pinyin?: string[];
+}
+
+export interface SearchDocument {
+    slug: string;
+    fields: SearchField[];
+}
+
+export interface SearchResult {
+    slug: string;
+    score: number;
+    /** Substrings of the original text that matched, for highlighting */
+    terms: string[];
+}
+
+export interface HighlightSegment {
+    text: string;
+    match: boolean;
+}
+
+interface FieldMatch {
+    /** 0..1, how good the match is regardless of the field */
+    quality: number;
+    term: string;
+}
+
+const FIELD_WEIGHTS: Record<SearchFieldKind, number> = {
+    title: 10,
+    alias: 8,
+    group: 5,
+    torrent: 3
+};
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+const ASCII_PATTERN = /^[a-z0-9]+$/;
+
+let indexPromise: Promise<SearchDocument[]> | null = null;
+
+/**
+ * Fetch the prebuilt index (once; a failed request is retried on the next call)
+ */
+export function loadSearchIndex(): Promise<SearchDocument[]> {
+    indexPromise ??= fetch('/search-index.json')
+        .then((res) => {
+            if (!res.ok) throw new Error(`Search index request failed: ${res.status}`);
+            return res.json() as Promise<SearchDocument[]>;
+        })
+        .catch((err) => {
+            indexPromise = null;
+            throw err;
+        });
+    return indexPromise;
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein + adjacent transpositions)
+ */
+function editDistance(a: string, b: string): number {
+    const rows: number[][] = [];
+    for (let i = 0; i <= a.length; i++) {
+        rows.push([i]);
+        for (let j = 1; j <= b.length; j++) {
+            if (i === 0) {
+                rows[i][j] = j;
+                continue;
+            }
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+            }
+        }
+    }
+    return rows[a.length][b.length];
+}
+
+function maxTypos(token: string): number {
+    // CJK characters carry more per character, so they tolerate typos at shorter lengths
+    const length = /^[\x00-\x7f]*$/.test(token) ? token.length : token.length + 1;
+    if (length >= 8) return 2;
+    if (length >= 4) return 1;
+    return 0;
+}
+
+function matchSubstring(token: string, text: string): FieldMatch | null {
+    const index = text.toLowerCase().indexOf(token);
+    if (index === -1) return null;
+
+    const atWordStart = index === 0 || !/[\p{L}\p{N}]/u.test(text[index - 1]);
+    return {
+        quality: index === 0 ? 1 : atWordStart ? 0.9 : 0.7,
+        term: text.slice(index, index + token.length)
+    };
+}
+
+/**
+ * "jinji" / "jjdjr" against 进击的巨人: full pinyin from a syllable start, or initials
+ */
+function matchPinyin(token: string, field: SearchField): FieldMatch | null {
+    if (!field.pinyin || !ASCII_PATTERN.test(token)) return null;
+    const chars = Array.from(field.text);
+
+    // Character index at which each syllable starts in the joined pinyin
+    const starts: number[] = [];
+    let joined = '';
+    for (const syllable of field.pinyin) {
+        starts.push(joined.length);
+        joined += syllable;
+    }
+
+    const charsCovering = (from: number, to: number) => {
+        let first = -1;
+        let last = -1;
+        starts.forEach((start, i) => {
+            const end = start + field.pinyin![i].length;
+            if (end > start && start < to && end > from) {
+                if (first === -1) first = i;
+                last = i;
+            }
+        });
+        return first === -1 ? '' : chars.slice(first, last + 1).join('');
+    };
+
+    for (let i = 0; i < starts.length; i++) {
+        if (field.pinyin[i] && joined.startsWith(token, starts[i])) {
+            return { quality: 0.8, term: charsCovering(starts[i], starts[i] + token.length) };
+        }
+    }
+
+    if (token.length >= 2) {
+        const initials = field.pinyin.map((p) => p[0] ?? ' ').join('');
+        const index = initials.indexOf(token);
+        if (index !== -1) {
+            return { quality: 0.6, term: chars.slice(index, index + token.length).join('') };
+        }
+    }
+
+    return null;
+}
+
+/**
+ * A word within a couple of typos of the token (or of its prefix, while still typing)
+ */
+function matchFuzzy(token: string, text: string): FieldMatch | null {
+    const typos = maxTypos(token);
+    if (typos === 0) return null;
+
+    let best: FieldMatch | null = null;
+    for (const [word] of text.matchAll(WORD_PATTERN)) {
+        const lower = word.toLowerCase();
+        const distance = Math.min(
+            editDistance(token, lower),
+            editDistance(token, lower.slice(0, token.length))
+        );
+        if (distance > typos) continue;
+
+        const quality = 0.5 - 0.1 * distance;
+        if (!best || quality > best.quality) best = { quality, term: word };
+    }
+    return best;
+}
+
+function matchField(token: string, field: SearchField): FieldMatch | null {
+    return matchSubstring(token, field.text) ?? matchPinyin(token, field) ?? matchFuzzy(token, field.text);
+}
+
+/**
+ * Rank documents against a query. Every whitespace-separated token has to match
+ * some field; the score sums the best weighted match per token.
+ *
+ * @returns Matching documents, best first (ties keep index order, i.e. newest first)
+ */
+export function querySearchIndex(index: SearchDocument[], query: string): SearchResult[] {
+    const tokens = query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (tokens.length === 0) return [];
+
+    const results: SearchResult[] = [];
+    for (const doc of index) {
+        let score = 0;
+        const terms: string[] = [];
+
+        const matchedAll = tokens.every((token) => {
+            let best: { score: number; term: string } | null = null;
+            for (const field of doc.fields) {
+                const match = matchField(token, field);
+                if (!match) continue;
+                const fieldScore = match.quality * FIELD_WEIGHTS[field.kind];
+                if (!best || fieldScore > best.score) best = { score: fieldScore, term: match.term };
+            }
+            if (!best) return false;
+            score += best.score;
+            if (best.term) terms.push(best.term);
+            return true;
+        });
+
+        if (matchedAll) results.push({ slug: doc.slug, score, terms });
+    }
+
+    return results.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Split text into plain and matched segments (case-insensitive, overlapping terms merged)
+ */
+export function highlightText(text: string, terms: string[]): HighlightSegment[] {
+    const lower = text.toLowerCase();
+    const ranges: [number, number][] = [];
+    for (const term of terms) {
+        const needle = term.toLowerCase();
+        if (!needle) continue;
+        for (let i = lower.indexOf(needle); i !== -1; i = lower.indexOf(needle, i + needle.length)) {
+            ranges.push([i, i + needle.length]);
+        }
+    }
+    if (ranges.length === 0) return [{ text, match: false }];
+
+    ranges.sort((a, b) => a[0] - b[0]);
+    const merged: [number, number][] = [];
+    for (const range of ranges) {
+        const last = merged[merged.length - 1];
+        if (last && range[0] <= last[1]) {
+            last[1] = Math.max(last[1], range[1]);
+        } else {
+            merged.push([...range]);
+        }
+    }
+
+    const segments: HighlightSegment[] = [];
+    let cursor = 0;
+    for (const [start, end] of merged) {
+        if (start > cursor) segments.push({ text: text.slice(cursor, start), match: false });
+        segments.push({ text: text.slice(start, end), match: true });
+        cursor = end;
+    }
+    if (cursor < text.length) segments.push({ text: text.slice(cursor), match: false });
+    return segments;
+}
@@ -0,0 +1,19 @@
+/**
+ * Build-time access to raw MediaInfo / BDInfo files in static/mediainfo
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+import type { MediaInfoEntry } from '$lib/content/schema';
+import type { MediaInfoStructured } from '$lib/utils/mediainfo-parser';
+import { structureEntry } from '$lib/utils/mediainfo-lint';
+
+const MEDIAINFO_PATH = path.join(process.cwd(), 'static', 'mediainfo');
+
+/**
+ * Structured MediaInfo of an entry, or null when its raw file is missing
+ */
+export function readStructuredMediaInfo(entry: MediaInfoEntry): MediaInfoStructured | null {
+    const rawPath = path.join(MEDIAINFO_PATH, entry.raw_hash);
+    if (!fs.existsSync(rawPath)) return null;
+    return structureEntry(fs.readFileSync(rawPath, 'utf-8'), entry.kind);
+}
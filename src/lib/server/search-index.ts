@@ -0,0 +1,50 @@
+/**
+ * Build-time search index, served as /search-index.json
+ * Pinyin is resolved here so the dictionary never ships to the browser
+ */
+import { pinyin } from 'pinyin-pro';
+import type { Release } from '$lib/content/schema';
+import type { SearchDocument, SearchField, SearchFieldKind } from '$lib/content/search';
+import { getTorrentGroup } from '$lib/config/groups';
+
+const HAN_PATTERN = /\p{Script=Han}/u;
+
+function toField(kind: SearchFieldKind, text: string): SearchField {
+    if (!HAN_PATTERN.test(text)) return { kind, text };
+
+    // One entry per character; non-Chinese characters come back as themselves
+    const syllables = pinyin(text, { toneType: 'none', type: 'array' }).map((p) => p.trim().toLowerCase());
+    if (syllables.length !== Array.from(text).length) return { kind, text };
+    return { kind, text, pinyin: syllables };
+}
+
+/**
+ * One document per release: titles, original title / aliases, group tags / names and torrent names
+ */
+export function buildSearchIndex(releases: Release[]): SearchDocument[] {
+    return releases.map((release) => {
+        const fields: SearchField[] = [];
+        const seen = new Set<string>();
+        const add = (kind: SearchFieldKind, text: string | undefined) => {
+            if (!text || seen.has(text)) return;
+            seen.add(text);
+            fields.push(toField(kind, text));
+        };
+
+        add('title', release.title);
+        add('title', release.title_en);
+        add('title', release.title_zh);
+        add('alias', release.original_title);
+        release.aliases?.forEach((alias) => add('alias', alias));
+
+        for (const torrent of release.torrents) {
+            const group = getTorrentGroup(torrent);
+            add('group', group?.tag);
+            add('group', group?.name);
+            add('torrent', torrent.name);
+            add('torrent', torrent.display_name);
+        }
+
+        return { slug: release.slug, fields };
+    });
+}
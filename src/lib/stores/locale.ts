@@ -56,6 +56,20 @@ export function getLocalizedTitle(
     return title_en || title;
 }
 
+/**
+ * Get localized synopsis, falling back to the other language
+ */
+export function getLocalizedOverview(
+    locale: Locale,
+    overview_en?: string,
+    overview_zh?: string
+): string | undefined {
+    if (locale === 'zh') {
+        return overview_zh || overview_en;
+    }
+    return overview_en || overview_zh;
+}
+
 /**
  * UI translations
  */
@@ -64,13 +78,33 @@ export const translations = {
         search: 'Search releases...',
         backToReleases: 'Back to Releases',
         mediaInfo: 'MediaInfo',
+        compareTorrents: 'Comparison',
+        synopsis: 'Synopsis',
+        minutes: 'min',
+        episodes: 'episodes',
         viewRaw: 'View Raw MediaInfo',
         torrents: 'Torrents',
         expandFiles: 'Show Files',
+        file: 'file',
+        files: 'files',
         collapseFiles: 'Hide Files',
+        downloadTorrent: 'Torrent',
+        magnet: 'Magnet',
+        copyMagnet: 'Copy',
+        copied: 'Copied',
 
         noResults: 'No results found',
         noResultsFor: 'No releases match',
+        noResultsFilters: 'Try removing some filters',
+        filterType: 'Type',
+        filterGroup: 'Group',
+        filterYear: 'Year',
+        filterResolution: 'Resolution',
+        filterCodec: 'Codec',
+        filterHdr: 'HDR',
+        filterStatus: 'Status',
+        filterComplete: 'Complete',
+        clearFilters: 'Clear filters',
         loadMore: 'Load More',
         theme: 'Theme',
         language: 'Language'
@@ -79,13 +113,33 @@ export const translations = {
         search: '搜索发布...',
         backToReleases: '返回列表',
         mediaInfo: '媒体信息',
+        compareTorrents: '版本对比',
+        synopsis: '简介',
+        minutes: '分钟',
+        episodes: '集',
         viewRaw: '查看原始 MediaInfo',
         torrents: '种子文件',
         expandFiles: '展开文件',
+        file: '个文件',
+        files: '个文件',
         collapseFiles: '收起文件',
+        downloadTorrent: '种子',
+        magnet: '磁力链接',
+        copyMagnet: '复制',
+        copied: '已复制',
 
         noResults: '未找到结果',
         noResultsFor: '没有匹配的发布',
+        noResultsFilters: '试试减少筛选条件',
+        filterType: '类型',
+        filterGroup: '发布组',
+        filterYear: '年份',
+        filterResolution: '分辨率',
+        filterCodec: '编码',
+        filterHdr: 'HDR',
+        filterStatus: '状态',
+        filterComplete: '已完结',
+        clearFilters: '清除筛选',
         loadMore: '加载更多',
         theme: '主题',
         language: '语言'
@@ -57,6 +57,7 @@ export function flyConfig(
 export const sections = {
     breadcrumb: { base: 0 },
     hero: { base: 160 },
+    synopsis: { base: 200 },
     specs: { base: 240, offset: 50 },
     mediainfo: { base: 320, offset: 50 },
     torrents: { base: 400, offset: 50 },
@@ -0,0 +1,254 @@
+/**
+ * BDInfo Report Parser
+ * Parses BDInfo scans (full report or quick summary) of BDMV / remux releases
+ * and maps them to MediaInfoStructured so summaries work the same way
+ */
+import { generateSummary, type MediaInfoStructured } from './mediainfo-parser';
+
+export interface BDInfoStream {
+    codec: string;
+    language?: string;
+    bitrate?: string;
+    description?: string;
+}
+
+export interface BDInfoReport {
+    disc_title?: string;
+    disc_label?: string;
+    disc_size?: number;     // Bytes
+    protection?: string;
+    playlist?: string;      // e.g. "00800.MPLS"
+    length?: string;        // e.g. "1:52:34.123"
+    size?: number;          // Playlist size in bytes
+    total_bitrate?: string;
+    video: BDInfoStream[];
+    audio: BDInfoStream[];
+    subtitles: BDInfoStream[];
+}
+
+/**
+ * Check whether a raw report is a BDInfo scan rather than MediaInfo output
+ */
+export function isBDInfo(text: string): boolean {
+    return /^\s*(?:\[code\])?\s*(?:DISC INFO:|PLAYLIST REPORT:|QUICK SUMMARY:|Disc (?:Title|Label|Size):)/im.test(text);
+}
+
+function parseBytes(value: string): number | undefined {
+    const n = Number(value.replace(/[^\d]/g, ''));
+    return n > 0 ? n : undefined;
+}
+
+/**
+ * Split a quick summary stream line: "Japanese / DTS-HD Master Audio / 5.1 / 48 kHz / ..."
+ */
+function parseSummaryStream(kind: string, value: string): BDInfoStream {
+    const parts = value.split(' / ').map(p => p.trim());
+    const bitrate = parts.find(p => /\b[kM]bps\b/.test(p));
+
+    if (kind === 'Video') {
+        return { codec: parts[0], bitrate, description: parts.slice(1).filter(p => p !== bitrate).join(' / ') };
+    }
+    if (kind === 'Audio') {
+        return { codec: parts[1] ?? parts[0], language: parts[0], bitrate, description: parts.slice(2).join(' / ') };
+    }
+    return { codec: 'Presentation Graphics', language: parts[0], bitrate };
+}
+
+/**
+ * Parse a full-report stream table (columns separated by runs of spaces)
+ */
+function parseTableRow(section: string, line: string): BDInfoStream | null {
+    const cells = line.replace(/^\*\s*/, '').split(/\s{2,}/).map(c => c.trim());
+    if (!cells[0]) return null;
+
+    if (section === 'VIDEO') {
+        return { codec: cells[0], bitrate: cells[1], description: cells[2] };
+    }
+    return { codec: cells[0], language: cells[1], bitrate: cells[2], description: cells[3] };
+}
+
+/**
+ * Parse a BDInfo report. Quick summary lines win over the full-report tables
+ * when both are present (the quick summary lists the same streams).
+ */
+export function parseBDInfo(text: string): BDInfoReport {
+    const report: BDInfoReport = { video: [], audio: [], subtitles: [] };
+    const tables: Pick<BDInfoReport, 'video' | 'audio' | 'subtitles'> = { video: [], audio: [], subtitles: [] };
+
+    const lines = text
+        .replace(/\[\/?code\]/gi, '')
+        .replace(/\r\n?/g, '\n')
+        .split('\n');
+
+    let section: string | null = null;
+    let inRows = false;
+
+    for (const rawLine of lines) {
+        const line = rawLine.trim();
+
+        // Section headers of the full report ("VIDEO:", "AUDIO:", ...)
+        const header = line.match(/^([A-Z][A-Z ]+):$/);
+        if (header) {
+            section = header[1];
+            inRows = false;
+            continue;
+        }
+
+        if (section === 'VIDEO' || section === 'AUDIO' || section === 'SUBTITLES') {
+            if (!line) {
+                if (inRows) section = null;
+                continue;
+            }
+            if (/^-{3,}/.test(line)) {
+                inRows = true;
+                continue;
+            }
+            if (inRows) {
+                const row = parseTableRow(section, line);
+                if (row) tables[section === 'VIDEO' ? 'video' : section === 'AUDIO' ? 'audio' : 'subtitles'].push(row);
+            }
+            continue;
+        }
+
+        const match = line.match(/^(?:\*\s*)?([A-Za-z ]+?):\s+(.+)$/);
+        if (!match) continue;
+        const [, key, value] = match;
+
+        switch (key) {
+            case 'Disc Title':
+                report.disc_title ??= value;
+                break;
+            case 'Disc Label':
+                report.disc_label ??= value;
+                break;
+            case 'Disc Size':
+                report.disc_size ??= parseBytes(value);
+                break;
+            case 'Protection':
+                report.protection ??= value;
+                break;
+            case 'Name':
+            case 'Playlist':
+                report.playlist ??= value;
+                break;
+            case 'Length':
+                report.length ??= value.replace(/\s*\(h:m:s\.ms\)/, '');
+                break;
+            case 'Size':
+                report.size ??= parseBytes(value);
+                break;
+            case 'Total Bitrate':
+                report.total_bitrate ??= value;
+                break;
+            case 'Video':
+                report.video.push(parseSummaryStream('Video', value));
+                break;
+            case 'Audio':
+                report.audio.push(parseSummaryStream('Audio', value));
+                break;
+            case 'Subtitle':
+                report.subtitles.push(parseSummaryStream('Subtitle', value));
+                break;
+        }
+    }
+
+    if (!report.video.length && !report.audio.length && !report.subtitles.length) {
+        Object.assign(report, tables);
+    }
+
+    return report;
+}
+
+/**
+ * "MPEG-H HEVC Video" -> "HEVC", "MPEG-4 AVC Video" -> "AVC", "VC-1 Video" -> "VC-1"
+ */
+function getVideoFormat(codec: string): string {
+    return codec.replace(/\s+Video$/i, '').replace(/^MPEG-[4H]\s+/i, '');
+}
+
+/**
+ * BDInfo audio codec -> MediaInfo-style format name (used by generateSummary)
+ */
+function getAudioFormat(codec: string): string {
+    const c = codec.toLowerCase();
+    if (c.includes('truehd')) return 'MLP FBA';
+    if (c.includes('dts')) return 'DTS';
+    if (c.includes('digital plus')) return 'E-AC-3';
+    if (c.includes('dolby digital')) return 'AC-3';
+    if (c.includes('lpcm')) return 'PCM';
+    return codec.replace(/\s+Audio$/i, '');
+}
+
+/** "5.1" -> "6 channels" (LFE counts as a channel, like MediaInfo) */
+function getChannels(description?: string): string | undefined {
+    const layout = description?.match(/(?:^|\/ )(\d)\.(\d)(?: |$)/);
+    if (!layout) return undefined;
+    return `${Number(layout[1]) + Number(layout[2])} channels`;
+}
+
+function formatBytes(bytes?: number): string | undefined {
+    if (!bytes) return undefined;
+    return `${(bytes / 1024 ** 3).toFixed(2)} GiB`;
+}
+
+/**
+ * Map a BDInfo report onto MediaInfoStructured
+ */
+export function bdinfoToStructured(report: BDInfoReport): MediaInfoStructured {
+    return {
+        general: {
+            file_name: report.playlist,
+            format: 'Blu-ray',
+            duration: report.length,
+            file_size: formatBytes(report.size),
+            bit_rate: report.total_bitrate
+        },
+        video: report.video.length
+            ? report.video.map((v) => {
+                const parts = v.description?.split(' / ').map(p => p.trim()) ?? [];
+                const resolution = parts.find(p => /^\d{3,4}[pi]$/.test(p));
+                const hdr = parts.find(p => /^(HDR10\+?|Dolby Vision|HLG)/i.test(p));
+                return {
+                    format: getVideoFormat(v.codec),
+                    format_profile: parts.find(p => /Profile|Level/i.test(p)),
+                    height: resolution?.slice(0, -1),
+                    bit_depth: parts.find(p => /^\d+ bits$/.test(p)),
+                    hdr_format: hdr,
+                    color_primaries: parts.find(p => /^BT\.\d+$/.test(p)),
+                    frame_rate: parts.find(p => /fps$/i.test(p)),
+                    bit_rate: v.bitrate
+                };
+            })
+            : null,
+        audio: report.audio.length
+            ? report.audio.map((a) => ({
+                format: getAudioFormat(a.codec),
+                channels: getChannels(a.description),
+                bit_rate: a.bitrate,
+                language: a.language,
+                commercial_name: a.codec
+            }))
+            : null,
+        text: report.subtitles.length
+            ? report.subtitles.map((s) => ({
+                format: 'PGS',
+                language: s.language
+            }))
+            : null,
+        chapters: null
+    };
+}
+
+/**
+ * Parse a raw BDInfo report and generate summary
+ */
+export function parseBDInfoAndSummarize(rawText: string): {
+    report: BDInfoReport;
+    structured: MediaInfoStructured;
+    summary: string;
+} {
+    const report = parseBDInfo(rawText);
+    const structured = bdinfoToStructured(report);
+    const summary = generateSummary(structured);
+    return { report, structured, summary };
+}
@@ -0,0 +1,91 @@
+/**
+ * Torrent file tree
+ * Builds a folder hierarchy from the flat, '/'-separated paths stored on a torrent
+ */
+import type { TorrentEntry } from '../content/schema';
+
+export interface FileNode {
+    type: 'file';
+    name: string;
+    path: string;
+    size: number;
+}
+
+export interface FolderNode {
+    type: 'folder';
+    name: string;
+    path: string;
+    size: number;       // Sum of all files below
+    fileCount: number;  // Number of files below (recursive)
+    children: TreeNode[];
+}
+
+export type TreeNode = FileNode | FolderNode;
+
+// BEP 47 padding files (".pad/<n>", BitComet's "_____padding_file_<n>_...") aren't real content
+const PAD_SEGMENT = /^(\.pad|_____padding_file_.*)$/;
+
+/**
+ * Whether a stored file path is a padding file
+ */
+export function isPadFile(path: string): boolean {
+    return path.split('/').some((part) => PAD_SEGMENT.test(part));
+}
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+/**
+ * Natural sort order ("E2" before "E10"), case-insensitive
+ */
+export function naturalCompare(a: string, b: string): number {
+    return collator.compare(a, b);
+}
+
+function sortTree(nodes: TreeNode[]): TreeNode[] {
+    nodes.sort((a, b) => {
+        // Folders first, like a file manager
+        if (a.type !== b.type) return a.type === 'folder' ? -1 : 1;
+        return naturalCompare(a.name, b.name);
+    });
+    for (const node of nodes) {
+        if (node.type === 'folder') sortTree(node.children);
+    }
+    return nodes;
+}
+
+/**
+ * Build a sorted tree from a torrent's file list
+ * Folder sizes and file counts are aggregated from their descendants
+ */
+export function buildFileTree(files: TorrentEntry['files']): TreeNode[] {
+    const root: TreeNode[] = [];
+    const folders = new Map<string, FolderNode>();
+
+    for (const file of files) {
+        const path = typeof file === 'string' ? file : file.name;
+        const size = typeof file === 'string' ? 0 : file.size ?? 0;
+        if (isPadFile(path)) continue;
+        const parts = path.split('/').filter(Boolean);
+        const name = parts.pop();
+        if (!name) continue;
+
+        let children = root;
+        let prefix = '';
+        for (const part of parts) {
+            prefix = prefix ? `${prefix}/${part}` : part;
+            let folder = folders.get(prefix);
+            if (!folder) {
+                folder = { type: 'folder', name: part, path: prefix, size: 0, fileCount: 0, children: [] };
+                folders.set(prefix, folder);
+                children.push(folder);
+            }
+            folder.size += size;
+            folder.fileCount++;
+            children = folder.children;
+        }
+
+        children.push({ type: 'file', name, path, size });
+    }
+
+    return sortTree(root);
+}
@@ -0,0 +1,28 @@
+/**
+ * Magnet link builder
+ * Supports v1, v2 (BEP 52) and hybrid torrents
+ */
+import type { TorrentEntry } from '$lib/content/schema';
+
+/**
+ * Build a magnet URI from a torrent entry's info hashes and trackers
+ * Returns null when the torrent has no stored info hash
+ */
+export function buildMagnetLink(torrent: TorrentEntry): string | null {
+    if (!torrent.info_hash && !torrent.info_hash_v2) return null;
+
+    const params: string[] = [];
+    if (torrent.info_hash) {
+        params.push(`xt=urn:btih:${torrent.info_hash}`);
+    }
+    if (torrent.info_hash_v2) {
+        // Multihash: 0x12 = sha2-256, 0x20 = 32 bytes
+        params.push(`xt=urn:btmh:1220${torrent.info_hash_v2}`);
+    }
+    params.push(`dn=${encodeURIComponent(torrent.name)}`);
+    for (const tracker of torrent.trackers ?? []) {
+        params.push(`tr=${encodeURIComponent(tracker)}`);
+    }
+
+    return `magnet:?${params.join('&')}`;
+}
@@ -0,0 +1,63 @@
+/**
+ * MediaInfo Comparison
+ * Lines up the first MediaInfo of each torrent in a release, row by row
+ */
+import type { TorrentEntry } from '$lib/content/schema';
+import { formatSize, getTotalSize } from './size';
+import {
+    getAudioLabel,
+    getHDRInfo,
+    getSubtitleLanguages,
+    type MediaInfoStructured
+} from './mediainfo-parser';
+
+export interface ComparisonColumn {
+    label: string;                          // Torrent display name
+    structured: MediaInfoStructured | null; // null while loading / unavailable
+    files: TorrentEntry['files'];
+}
+
+export interface ComparisonRow {
+    label: string;
+    values: string[];   // One per column, '' when unknown
+    differs: boolean;
+}
+
+type Row = [label: string, get: (structured: MediaInfoStructured) => string | undefined];
+
+const ROWS: Row[] = [
+    ['Codec', (s) => s.video?.[0]?.format],
+    ['Encoder', (s) => s.video?.[0]?.writing_library?.split(/[:\s]/)[0]],
+    ['Resolution', (s) => {
+        const v = s.video?.[0];
+        if (!v?.width || !v?.height) return undefined;
+        return `${v.width.replace(/[^\d]/g, '')} × ${v.height.replace(/[^\d]/g, '')}`;
+    }],
+    ['Bit depth', (s) => s.video?.[0]?.bit_depth],
+    ['HDR', (s) => getHDRInfo(s.video)],
+    ['Bitrate', (s) => (s.video?.[0]?.bit_rate ?? s.general?.bit_rate)?.replace(/\s+(?=\d)/g, '')],
+    ['Audio', (s) => s.audio
+        ?.map((a) => [getAudioLabel(a), a.language && `(${a.language})`].filter(Boolean).join(' '))
+        .join('\n')],
+    ['Subtitles', (s) => getSubtitleLanguages(s.text).join(', ')]
+];
+
+/**
+ * Build comparison rows; rows empty for every column are dropped
+ * Columns without MediaInfo yet don't count towards a row differing
+ */
+export function buildComparison(columns: ComparisonColumn[]): ComparisonRow[] {
+    const loaded = columns.map((c) => c.structured !== null);
+    const differs = (values: string[], include: boolean[]) =>
+        new Set(values.filter((_, i) => include[i])).size > 1;
+
+    const rows: ComparisonRow[] = ROWS.map(([label, get]) => {
+        const values = columns.map((c) => (c.structured ? get(c.structured) : undefined) ?? '');
+        return { label, values, differs: differs(values, loaded) };
+    });
+
+    const sizes = columns.map((c) => formatSize(getTotalSize(c.files)));
+    rows.push({ label: 'Size', values: sizes, differs: differs(sizes, sizes.map(Boolean)) });
+
+    return rows.filter((row) => row.values.some(Boolean));
+}
@@ -0,0 +1,305 @@
+/**
+ * MediaInfo JSON / XML normalizer
+ * Converts --Output=JSON and --Output=XML into the same MediaInfoParsed shape
+ * the Text parser produces, using the Text output's field labels and units
+ */
+import type { MediaInfoParsed, MediaInfoSection } from './mediainfo-parser';
+
+/**
+ * A track as found in JSON/XML output (machine field names, raw values)
+ */
+interface RawTrack {
+    type: string;
+    order?: number;
+    fields: Record<string, string>;
+    extra: Record<string, string>;
+}
+
+type Formatter = (value: string, fields: Record<string, string>) => string;
+
+const isNumeric = (value: string) => /^-?\d+(?:\.\d+)?$/.test(value);
+
+/** "1 920" style grouping used by MediaInfo Text output */
+function groupDigits(n: number): string {
+    return String(Math.round(n)).replace(/\B(?=(\d{3})+(?!\d))/g, ' ');
+}
+
+function formatBytes(value: string): string {
+    const units = ['Bytes', 'KiB', 'MiB', 'GiB', 'TiB'];
+    let size = Number(value);
+    let unitIndex = 0;
+    while (size >= 1024 && unitIndex < units.length - 1) {
+        size /= 1024;
+        unitIndex++;
+    }
+    if (unitIndex === 0) return `${groupDigits(size)} ${units[0]}`;
+    const decimals = size >= 100 ? 0 : size >= 10 ? 1 : 2;
+    return `${size.toFixed(decimals)} ${units[unitIndex]}`;
+}
+
+function formatDuration(value: string): string {
+    const totalMs = Math.round(Number(value) * 1000);
+    const h = Math.floor(totalMs / 3_600_000);
+    const min = Math.floor(totalMs / 60_000) % 60;
+    const s = Math.floor(totalMs / 1000) % 60;
+    const ms = totalMs % 1000;
+
+    if (h > 0) return `${h} h ${min} min`;
+    if (min > 0) return `${min} min ${s} s`;
+    if (s > 0) return `${s} s ${ms} ms`;
+    return `${ms} ms`;
+}
+
+function formatBitRate(value: string): string {
+    const bps = Number(value);
+    if (bps >= 10_000_000) return `${(bps / 1_000_000).toFixed(1)} Mb/s`;
+    return `${groupDigits(bps / 1000)} kb/s`;
+}
+
+function formatFrameRate(value: string, fields: Record<string, string>): string {
+    const rate = Number(value).toFixed(3);
+    const { FrameRate_Num: num, FrameRate_Den: den } = fields;
+    return num && den && den !== '1' ? `${rate} (${num}/${den}) FPS` : `${rate} FPS`;
+}
+
+function formatSamplingRate(value: string): string {
+    return `${(Number(value) / 1000).toFixed(1)} kHz`;
+}
+
+const languageNames = typeof Intl !== 'undefined' && 'DisplayNames' in Intl
+    ? new Intl.DisplayNames(['en'], { type: 'language', languageDisplay: 'standard' })
+    : null;
+
+/** ISO codes ("ja", "zh-Hans") to names ("Japanese", "Chinese (Simplified)") */
+function formatLanguage(value: string): string {
+    if (!languageNames || !/^[a-z]{2,3}(?:-[A-Za-z0-9]{2,8})*$/.test(value)) return value;
+    try {
+        return languageNames.of(value) ?? value;
+    } catch {
+        return value;
+    }
+}
+
+const withUnit = (unit: string): Formatter => (value) => `${groupDigits(Number(value))} ${unit}`;
+const BIT_RATE_MODES: Record<string, string> = { CBR: 'Constant', VBR: 'Variable' };
+
+/**
+ * Machine field name -> [Text label, formatter for raw numeric values]
+ * Fields not listed keep their name with underscores turned into spaces
+ */
+const FIELDS: Record<string, [string, Formatter?]> = {
+    Format_Version: ['Format version'],
+    Format_Profile: ['Format profile'],
+    Format_Settings: ['Format settings'],
+    Format_Commercial_IfAny: ['Commercial name'],
+    CodecID: ['Codec ID'],
+    FileSize: ['File size', formatBytes],
+    StreamSize: ['Stream size', formatBytes],
+    Duration: ['Duration', formatDuration],
+    OverallBitRate: ['Overall bit rate', formatBitRate],
+    OverallBitRate_Mode: ['Overall bit rate mode', (v) => BIT_RATE_MODES[v] ?? v],
+    BitRate: ['Bit rate', formatBitRate],
+    BitRate_Mode: ['Bit rate mode', (v) => BIT_RATE_MODES[v] ?? v],
+    BitRate_Maximum: ['Maximum bit rate', formatBitRate],
+    Movie: ['Movie name'],
+    Encoded_Date: ['Encoded date'],
+    Encoded_Application: ['Writing application'],
+    Encoded_Library: ['Writing library'],
+    Encoded_Library_Settings: ['Encoding settings'],
+    Width: ['Width', withUnit('pixels')],
+    Height: ['Height', withUnit('pixels')],
+    DisplayAspectRatio: ['Display aspect ratio'],
+    FrameRate_Mode: ['Frame rate mode', (v) => ({ CFR: 'Constant', VFR: 'Variable' })[v] ?? v],
+    FrameRate: ['Frame rate', formatFrameRate],
+    ColorSpace: ['Color space'],
+    ChromaSubsampling: ['Chroma subsampling'],
+    BitDepth: ['Bit depth', withUnit('bits')],
+    ScanType: ['Scan type'],
+    colour_range: ['Color range'],
+    colour_primaries: ['Color primaries'],
+    transfer_characteristics: ['Transfer characteristics'],
+    matrix_coefficients: ['Matrix coefficients'],
+    MasteringDisplay_ColorPrimaries: ['Mastering display color primaries'],
+    MasteringDisplay_Luminance: ['Mastering display luminance'],
+    MaxCLL: ['Maximum Content Light Level'],
+    MaxFALL: ['Maximum Frame-Average Light Level'],
+    Channels: ['Channel(s)', (v) => `${v} channel${v === '1' ? '' : 's'}`],
+    Channel_s_: ['Channel(s)'],
+    ChannelPositions: ['Channel positions'],
+    ChannelLayout: ['Channel layout'],
+    SamplingRate: ['Sampling rate', formatSamplingRate],
+    Compression_Mode: ['Compression mode'],
+    ElementCount: ['Count of elements']
+};
+
+/** Fields folded into other labels or internal bookkeeping */
+const SKIPPED_FIELDS = new Set([
+    'Format_AdditionalFeatures', 'Format_Level', 'Format_Tier',
+    'FrameRate_Num', 'FrameRate_Den',
+    'HDR_Format_Version', 'HDR_Format_Profile', 'HDR_Format_Level',
+    'HDR_Format_Settings', 'HDR_Format_Compatibility',
+    'StreamOrder', 'FirstPacketOrder',
+    'VideoCount', 'AudioCount', 'TextCount', 'MenuCount', 'ImageCount', 'OtherCount'
+]);
+
+/**
+ * Rebuild the Text output's "HDR format" line from its split JSON/XML fields
+ * e.g. "Dolby Vision, Version 1.0, dvhe.08.06, BL+RPU, HDR10 compatible / SMPTE ST 2086, ..."
+ */
+function getHdrFormat(fields: Record<string, string>): string {
+    const split = (key: string) => fields[key]?.split(' / ') ?? [];
+    const versions = split('HDR_Format_Version');
+    const profiles = split('HDR_Format_Profile');
+    const levels = split('HDR_Format_Level');
+    const settings = split('HDR_Format_Settings');
+    const compat = split('HDR_Format_Compatibility');
+
+    return split('HDR_Format').map((format, i) => {
+        const parts = [format];
+        if (versions[i]) parts.push(`Version ${versions[i]}`);
+        if (profiles[i]) parts.push(levels[i] ? `${profiles[i]}.${levels[i]}` : profiles[i]);
+        if (settings[i]) parts.push(settings[i]);
+        if (compat[i]) parts.push(`${compat[i]} compatible`);
+        return parts.join(', ');
+    }).join(' / ');
+}
+
+/**
+ * Turn one raw track into a Text-style section
+ */
+function toSection(track: RawTrack, completeName?: string): MediaInfoSection {
+    const { fields } = track;
+    const data: Record<string, string | string[]> = {};
+
+    if (track.type === 'General' && completeName) {
+        data['Complete name'] = completeName;
+    }
+
+    for (const [key, value] of Object.entries(fields)) {
+        if (SKIPPED_FIELDS.has(key) || key.startsWith('@')) continue;
+
+        if (key === 'Format') {
+            // Text output appends additional features ("E-AC-3 JOC", "AAC LC")
+            const features = fields.Format_AdditionalFeatures;
+            data['Format'] = features ? `${value} ${features}` : value;
+        } else if (key === 'Format_Profile' && (fields.Format_Level || fields.Format_Tier)) {
+            // "Main 10@L5.1@High"
+            const level = fields.Format_Level ? `L${fields.Format_Level}` : undefined;
+            data['Format profile'] = [value, level, fields.Format_Tier].filter(Boolean).join('@');
+        } else if (key === 'HDR_Format') {
+            data['HDR format'] = getHdrFormat(fields);
+        } else if (key === 'Language') {
+            data['Language'] = formatLanguage(value);
+        } else {
+            const [label, format] = FIELDS[key] ?? [key.replace(/_/g, ' ')];
+            data[label] = format && isNumeric(value) ? format(value, fields) : value;
+        }
+    }
+
+    // Menu entries: "_00_01_30_000" -> "00:01:30.000"
+    for (const [key, value] of Object.entries(track.extra)) {
+        const time = key.match(/^_(\d{2})_(\d{2})_(\d{2})_(\d{3})$/);
+        data[time ? `${time[1]}:${time[2]}:${time[3]}.${time[4]}` : key.replace(/_/g, ' ')] = value;
+    }
+
+    return {
+        header: track.order ? `${track.type} #${track.order}` : track.type,
+        base: track.type,
+        index: track.order,
+        data
+    };
+}
+
+function toParsed(tracks: RawTrack[], completeName?: string): MediaInfoParsed {
+    const result: MediaInfoParsed = {};
+    for (const track of tracks) {
+        const section = toSection(track, completeName);
+        (result[section.base] ??= []).push(section);
+    }
+    return result;
+}
+
+function stringifyValues(obj: Record<string, unknown>): Record<string, string> {
+    const out: Record<string, string> = {};
+    for (const [key, value] of Object.entries(obj)) {
+        if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+            out[key] = String(value);
+        }
+    }
+    return out;
+}
+
+/**
+ * Parse MediaInfo --Output=JSON
+ */
+export function parseMediaInfoJSON(json: string): MediaInfoParsed {
+    const root = JSON.parse(json);
+    // Multiple input files produce an array; only the first file is used
+    const media = (Array.isArray(root) ? root[0] : root)?.media;
+    if (!media) return {};
+
+    const rawTracks: Record<string, unknown>[] = Array.isArray(media.track) ? media.track : [media.track];
+    const tracks = rawTracks.filter(Boolean).map((t): RawTrack => {
+        const extra = t.extra && typeof t.extra === 'object' ? t.extra as Record<string, unknown> : {};
+        return {
+            type: String(t['@type']),
+            order: t['@typeorder'] ? Number(t['@typeorder']) : undefined,
+            fields: stringifyValues(t),
+            extra: stringifyValues(extra)
+        };
+    });
+
+    return toParsed(tracks, media['@ref']);
+}
+
+function decodeEntities(text: string): string {
+    return text
+        .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+        .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, '&');
+}
+
+/** Leaf elements (<Name>value</Name>) directly inside an XML fragment */
+function readElements(xml: string): Record<string, string> {
+    const fields: Record<string, string> = {};
+    for (const match of xml.matchAll(/<([\w.-]+)(?:\s[^>]*)?>([^<]*)<\/\1>/g)) {
+        fields[match[1]] ??= decodeEntities(match[2].trim());
+    }
+    return fields;
+}
+
+/**
+ * Parse MediaInfo --Output=XML (current schema, and the pre-17.10 <File> layout)
+ * A small regex reader is enough here and works without DOMParser during prerender
+ */
+export function parseMediaInfoXML(xml: string): MediaInfoParsed {
+    // Only the first file of multi-file output is used
+    const media = xml.match(/<(media|File)\b([^>]*)>([\s\S]*?)<\/\1>/);
+    if (!media) return {};
+
+    const ref = media[2].match(/\bref="([^"]*)"/)?.[1];
+    const tracks: RawTrack[] = [];
+
+    for (const match of media[3].matchAll(/<track\b([^>]*)>([\s\S]*?)<\/track>/g)) {
+        const attrs = match[1];
+        const type = attrs.match(/\btype="([^"]*)"/)?.[1];
+        if (!type) continue;
+
+        const order = attrs.match(/\btypeorder="(\d+)"/)?.[1];
+        const extraMatch = match[2].match(/<extra>([\s\S]*?)<\/extra>/);
+        const body = extraMatch ? match[2].replace(extraMatch[0], '') : match[2];
+
+        tracks.push({
+            type,
+            order: order ? Number(order) : undefined,
+            fields: readElements(body),
+            extra: extraMatch ? readElements(extraMatch[1]) : {}
+        });
+    }
+
+    return toParsed(tracks, ref ? decodeEntities(ref) : undefined);
+}
@@ -0,0 +1,126 @@
+/**
+ * MediaInfo Consistency Lint
+ * Diffs the MediaInfo of every episode in a torrent against the first one:
+ * codec, resolution, HDR, audio / subtitle track order, languages and flags
+ */
+import { getHDRInfo, parseMediaInfo, toStructured, type MediaInfoStructured } from './mediainfo-parser';
+import { bdinfoToStructured, parseBDInfo } from './bdinfo-parser';
+
+export interface MediaInfoLintInput {
+    filename: string;
+    structured: MediaInfoStructured;
+}
+
+export interface MediaInfoLintIssue {
+    filename: string;   // Entry that differs from the reference (first) entry
+    message: string;
+}
+
+type AudioTrack = NonNullable<MediaInfoStructured['audio']>[number];
+type TextTrack = NonNullable<MediaInfoStructured['text']>[number];
+type Field<T> = [label: string, get: (track: T) => string | undefined];
+
+const AUDIO_FIELDS: Field<AudioTrack>[] = [
+    ['language', (a) => a.language],
+    ['format', (a) => a.commercial_name ?? a.format],
+    ['channels', (a) => a.channels],
+    ['default flag', (a) => a.default]
+];
+
+const TEXT_FIELDS: Field<TextTrack>[] = [
+    ['language', (t) => t.language],
+    ['format', (t) => t.format],
+    ['default flag', (t) => t.default],
+    ['forced flag', (t) => t.forced]
+];
+
+/**
+ * Structure a raw MediaInfo / BDInfo report according to its entry kind
+ */
+export function structureEntry(raw: string, kind?: 'mediainfo' | 'bdinfo'): MediaInfoStructured {
+    return kind === 'bdinfo' ? bdinfoToStructured(parseBDInfo(raw)) : toStructured(parseMediaInfo(raw));
+}
+
+function show(value?: string): string {
+    return value ?? '(none)';
+}
+
+function getResolution(structured: MediaInfoStructured): string | undefined {
+    const v = structured.video?.[0];
+    if (!v?.width || !v?.height) return undefined;
+    return `${v.width.replace(/[^\d]/g, '')}x${v.height.replace(/[^\d]/g, '')}`;
+}
+
+/**
+ * Tracks present in one list but not the other, by language
+ * e.g. ["Missing subtitle track: English"]
+ */
+function diffLanguages(kind: string, actual: (string | undefined)[], expected: (string | undefined)[]): string[] {
+    const messages: string[] = [];
+    const remaining = [...actual];
+    for (const language of expected) {
+        const i = remaining.indexOf(language);
+        if (i === -1) messages.push(`Missing ${kind.toLowerCase()} track: ${show(language)}`);
+        else remaining.splice(i, 1);
+    }
+    for (const language of remaining) {
+        messages.push(`Extra ${kind.toLowerCase()} track: ${show(language)}`);
+    }
+    return messages;
+}
+
+function diffTracks<T>(kind: string, actual: T[], expected: T[], fields: Field<T>[], reference: string): string[] {
+    if (actual.length !== expected.length) {
+        const messages = diffLanguages(kind, actual.map(fields[0][1]), expected.map(fields[0][1]));
+        return messages.length
+            ? messages
+            : [`${actual.length} ${kind.toLowerCase()} track(s), ${reference} has ${expected.length}`];
+    }
+
+    const messages: string[] = [];
+    for (const [i, track] of actual.entries()) {
+        for (const [label, get] of fields) {
+            const a = get(track);
+            const e = get(expected[i]);
+            if (a !== e) {
+                messages.push(`${kind} #${i + 1} ${label}: ${show(a)} (${reference}: ${show(e)})`);
+            }
+        }
+    }
+    return messages;
+}
+
+/**
+ * Compare every entry against the first one
+ * Returns one issue per difference; an empty list means the episodes match
+ */
+export function lintMediaInfo(entries: MediaInfoLintInput[]): MediaInfoLintIssue[] {
+    if (entries.length < 2) return [];
+
+    const [reference, ...rest] = entries;
+    const ref = reference.structured;
+    const issues: MediaInfoLintIssue[] = [];
+
+    for (const { filename, structured } of rest) {
+        const messages: string[] = [];
+        const check = (label: string, actual?: string, expected?: string) => {
+            if (actual !== expected) {
+                messages.push(`${label}: ${show(actual)} (${reference.filename}: ${show(expected)})`);
+            }
+        };
+
+        const video = structured.video?.[0];
+        check('Video tracks', String(structured.video?.length ?? 0), String(ref.video?.length ?? 0));
+        check('Video format', video?.format, ref.video?.[0]?.format);
+        check('Resolution', getResolution(structured), getResolution(ref));
+        check('Bit depth', video?.bit_depth, ref.video?.[0]?.bit_depth);
+        check('HDR', getHDRInfo(structured.video) || undefined, getHDRInfo(ref.video) || undefined);
+
+        messages.push(...diffTracks('Audio', structured.audio ?? [], ref.audio ?? [], AUDIO_FIELDS, reference.filename));
+        messages.push(...diffTracks('Subtitle', structured.text ?? [], ref.text ?? [], TEXT_FIELDS, reference.filename));
+
+        issues.push(...messages.map((message) => ({ filename, message })));
+    }
+
+    return issues;
+}
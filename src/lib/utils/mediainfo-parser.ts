@@ -1,8 +1,9 @@
 /**
- * MediaInfo Text Parser
- * Parses MediaInfo --Output=Text into structured data
+ * MediaInfo Parser
+ * Parses MediaInfo --Output=Text (or JSON / XML, see mediainfo-formats) into structured data
  * Auto-generates summary from parsed content
  */
+import { parseMediaInfoJSON, parseMediaInfoXML } from './mediainfo-formats';
 
 /**
  * Represents a single section in MediaInfo Text output
@@ -29,6 +30,11 @@ export interface MediaInfoStructured {
         duration?: string;
         file_size?: string;
         bit_rate?: string;
+        encoded_date?: string;
+        writing_application?: string;
+        writing_library?: string;
+        attachments?: string[];
+        fonts?: string[];       // Font files among the attachments
     } | null;
     video: Array<{
         format?: string;
@@ -39,8 +45,18 @@ export interface MediaInfoStructured {
         bit_depth?: string;
         hdr_format?: string;
         transfer_characteristics?: string;
+        color_primaries?: string;
+        mastering_display_primaries?: string;
+        mastering_display_luminance?: string;   // "min: 0.0050 cd/m2, max: 1000 cd/m2"
+        max_cll?: string;
+        max_fall?: string;
+        dv_profile?: string;        // Dolby Vision profile, e.g. "8" or "8.1"
+        dv_level?: string;
+        scan_type?: string;
+        title?: string;
         frame_rate?: string;
         bit_rate?: string;
+        writing_library?: string;   // Encoder, e.g. "x265 - 3.5+1:f0c1022b"
     }> | null;
     audio: Array<{
         format?: string;
@@ -50,20 +66,56 @@ export interface MediaInfoStructured {
         title?: string;
         language?: string;
         commercial_name?: string;
+        default?: string;           // "Yes" / "No"
     }> | null;
     text: Array<{
         format?: string;
         title?: string;
         language?: string;
+        default?: string;
+        forced?: string;
     }> | null;
+    chapters: MediaInfoChapter[] | null;
+}
+
+/**
+ * Chapter entry from the Menu section
+ */
+export interface MediaInfoChapter {
+    timestamp: string;  // "00:01:30.000"
+    title: string;
+    language?: string;  // From the "en:" prefix, when present
+}
+
+export type MediaInfoFormat = 'text' | 'json' | 'xml';
+
+/**
+ * Detect which MediaInfo output format a dump is in
+ */
+export function detectMediaInfoFormat(content: string): MediaInfoFormat {
+    const start = content.trimStart();
+    if (start.startsWith('{') || start.startsWith('[')) return 'json';
+    if (start.startsWith('<')) return 'xml';
+    return 'text';
 }
 
 /**
- * Parse MediaInfo --Output=Text into a structured object.
+ * Parse a MediaInfo dump into a structured object.
+ * Text, JSON and XML output are detected automatically; JSON/XML are normalized
+ * to the Text output's section and field names.
  */
 export function parseMediaInfo(text: string): MediaInfoParsed {
     if (!text) return {};
 
+    const format = detectMediaInfoFormat(text);
+    if (format !== 'text') {
+        try {
+            return format === 'json' ? parseMediaInfoJSON(text) : parseMediaInfoXML(text);
+        } catch {
+            // Malformed JSON/XML: fall through and treat it as text
+        }
+    }
+
     const looksEscaped = /\\n/.test(text);
     const normalized = (looksEscaped ? text.replace(/\\n/g, '\n') : text)
         .replace(/\r\n?/g, '\n')
@@ -91,7 +143,9 @@ export function parseMediaInfo(text: string): MediaInfoParsed {
             const line = lines[i];
             if (!line.includes(':')) continue;
 
-            const [rawKey, ...rest] = line.split(':');
+            // Menu entries use the timestamp as key: "00:01:30.000 : en:Opening"
+            const chapter = line.match(/^(\d{2}:\d{2}:\d{2}[.:]\d{3})\s*:\s?(.*)$/);
+            const [rawKey, ...rest] = chapter ? [chapter[1], chapter[2]] : line.split(':');
             const key = rawKey.trim();
             const value = rest.join(':').trim();
 
@@ -120,6 +174,52 @@ function getFirst(value: string | string[] | undefined): string | undefined {
     return Array.isArray(value) ? value[0] : value;
 }
 
+const FONT_EXTENSIONS = /\.(ttf|otf|ttc|otc|woff2?)$/i;
+const TIMESTAMP_KEY = /^\d{2}:\d{2}:\d{2}[.:]\d{3}$/;
+
+/**
+ * Split the General "Attachments" field ("a.ttf / b.otf / cover.jpg")
+ */
+function getAttachments(value: string | string[] | undefined): string[] | undefined {
+    const raw = getFirst(value);
+    if (!raw) return undefined;
+    return raw.split(' / ').map((a) => a.trim()).filter(Boolean);
+}
+
+/**
+ * Read chapters from the Menu section (timestamp keys, optional "lang:" title prefix)
+ */
+function getChapters(menu: MediaInfoSection | undefined): MediaInfoChapter[] | null {
+    if (!menu) return null;
+
+    const chapters: MediaInfoChapter[] = [];
+    for (const [key, value] of Object.entries(menu.data)) {
+        if (!TIMESTAMP_KEY.test(key)) continue;
+        const match = getFirst(value)?.match(/^(?:([a-z]{2,3}(?:-[A-Za-z]+)?)?:)?(.*)$/);
+        chapters.push({
+            timestamp: key.replace(/:(\d{3})$/, '.$1'),
+            title: match?.[2]?.trim() ?? '',
+            language: match?.[1] || undefined
+        });
+    }
+    return chapters.length ? chapters : null;
+}
+
+/**
+ * Dolby Vision profile/level from the HDR format line
+ * "Dolby Vision, Version 1.0, Profile 8.1, dvhe.08.06, BL+RPU, ..." -> { profile: "8.1", level: "6" }
+ */
+function getDolbyVision(hdrFormat?: string): { profile?: string; level?: string } {
+    const dv = hdrFormat?.split(' / ').find((f) => /dolby vision/i.test(f));
+    if (!dv) return {};
+
+    const codecString = dv.match(/\b(?:dv[a-z0-9]{2})\.(\d{2})\.(\d{2})\b/i);
+    const profile = dv.match(/Profile (\d+(?:\.\d+)?)/i)?.[1]
+        ?? (codecString ? String(Number(codecString[1])) : undefined);
+    const level = codecString ? String(Number(codecString[2])) : undefined;
+    return { profile, level };
+}
+
 /**
  * Convert parsed MediaInfo to structured format
  */
@@ -144,22 +244,40 @@ export function toStructured(parsed: MediaInfoParsed): MediaInfoStructured {
                 format: getFirst(general.data['Format']),
                 duration: getFirst(general.data['Duration']),
                 file_size: getFirst(general.data['File size']),
-                bit_rate: getFirst(general.data['Overall bit rate'])
+                bit_rate: getFirst(general.data['Overall bit rate']),
+                encoded_date: getFirst(general.data['Encoded date']),
+                writing_application: getFirst(general.data['Writing application']),
+                writing_library: getFirst(general.data['Writing library']),
+                attachments: getAttachments(general.data['Attachments']),
+                fonts: getAttachments(general.data['Attachments'])?.filter((a) => FONT_EXTENSIONS.test(a))
             }
             : null,
         video: videos.length
-            ? videos.map((v) => ({
-                format: getFirst(v.data['Format']),
-                format_profile: getFirst(v.data['Format profile']),
-                codec: getFirst(v.data['Codec ID']),
-                width: getFirst(v.data['Width']),
-                height: getFirst(v.data['Height']),
-                bit_depth: getFirst(v.data['Bit depth']),
-                hdr_format: getFirst(v.data['HDR format']),
-                transfer_characteristics: getFirst(v.data['Transfer characteristics']),
-                frame_rate: getFirst(v.data['Frame rate']),
-                bit_rate: getFirst(v.data['Bit rate'])
-            }))
+            ? videos.map((v) => {
+                const dv = getDolbyVision(getFirst(v.data['HDR format']));
+                return {
+                    format: getFirst(v.data['Format']),
+                    format_profile: getFirst(v.data['Format profile']),
+                    codec: getFirst(v.data['Codec ID']),
+                    width: getFirst(v.data['Width']),
+                    height: getFirst(v.data['Height']),
+                    bit_depth: getFirst(v.data['Bit depth']),
+                    hdr_format: getFirst(v.data['HDR format']),
+                    transfer_characteristics: getFirst(v.data['Transfer characteristics']),
+                    color_primaries: getFirst(v.data['Color primaries']),
+                    mastering_display_primaries: getFirst(v.data['Mastering display color primaries']),
+                    mastering_display_luminance: getFirst(v.data['Mastering display luminance']),
+                    max_cll: getFirst(v.data['Maximum Content Light Level']),
+                    max_fall: getFirst(v.data['Maximum Frame-Average Light Level']),
+                    scan_type: getFirst(v.data['Scan type']),
+                    title: getFirst(v.data['Title']),
+                    frame_rate: getFirst(v.data['Frame rate']),
+                    bit_rate: getFirst(v.data['Bit rate']),
+                    writing_library: getFirst(v.data['Writing library']),
+                    dv_profile: dv.profile,
+                    dv_level: dv.level
+                };
+            })
             : null,
         audio: audios.length
             ? audios.map((a) => ({
@@ -169,16 +287,20 @@ export function toStructured(parsed: MediaInfoParsed): MediaInfoStructured {
                 bit_rate: getFirst(a.data['Bit rate']),
                 title: getFirst(a.data['Title']),
                 language: getFirst(a.data['Language']),
-                commercial_name: getFirst(a.data['Commercial name'])
+                commercial_name: getFirst(a.data['Commercial name']),
+                default: getFirst(a.data['Default'])
             }))
             : null,
         text: texts.length
             ? texts.map((t) => ({
                 format: getFirst(t.data['Format']),
                 title: getFirst(t.data['Title']),
-                language: getFirst(t.data['Language'])
+                language: getFirst(t.data['Language']),
+                default: getFirst(t.data['Default']),
+                forced: getFirst(t.data['Forced'])
             }))
-            : null
+            : null,
+        chapters: getChapters(parsed['Menu']?.[0])
     };
 }
 
@@ -209,7 +331,7 @@ function parseChannels(channelStr?: string): string {
 /**
  * Get resolution string from width/height
  */
-function getResolution(width?: string, height?: string): string {
+export function getResolution(width?: string, height?: string): string {
     if (!height) return '';
     const h = parseInt(height.replace(/[^\d]/g, ''), 10);
     if (isNaN(h)) return '';
@@ -222,32 +344,109 @@ function getResolution(width?: string, height?: string): string {
     return `${h}p`;
 }
 
+type VideoTrack = NonNullable<MediaInfoStructured['video']>[number];
+
+/**
+ * HDR formats of a single video track, e.g. ["DV P8", "HDR10"]
+ */
+export function getTrackHDR(v: VideoTrack): string[] {
+    const formats: string[] = [];
+
+    for (const segment of v.hdr_format?.split(' / ') ?? []) {
+        const f = segment.toLowerCase();
+        if (f.includes('dolby vision')) {
+            formats.push(v.dv_profile ? `DV P${v.dv_profile.split('.')[0]}` : 'DV');
+            // Cross-compatible base layers (profile 8.1 / 8.4)
+            if (f.includes('hdr10 compatible')) formats.push('HDR10');
+            if (f.includes('hlg compatible')) formats.push('HLG');
+        } else if (f.includes('hdr10+') || f.includes('2094')) {
+            formats.push('HDR10+');
+        } else if (f.includes('hdr10') || f.includes('2086')) {
+            formats.push('HDR10');
+        } else if (f.includes('hlg')) {
+            formats.push('HLG');
+        } else {
+            formats.push('HDR');
+        }
+    }
+
+    if (!formats.length) {
+        const transfer = v.transfer_characteristics?.toLowerCase() ?? '';
+        if (transfer.includes('pq') || transfer.includes('smpte st 2084')) formats.push('HDR10');
+        if (transfer.includes('hlg')) formats.push('HLG');
+    }
+
+    return [...new Set(formats)];
+}
+
 /**
- * Check if video has HDR
+ * Combined HDR label across all video tracks (dual-layer DV counts its EL track)
+ * e.g. "DV P8 + HDR10", "DV P7 + HDR10", "HDR10+"
  */
-function getHDRInfo(video: MediaInfoStructured['video']): string {
+export function getHDRInfo(video: MediaInfoStructured['video']): string {
     if (!video?.length) return '';
-    const v = video[0];
-
-    if (v.hdr_format) {
-        if (v.hdr_format.toLowerCase().includes('dolby vision')) return 'DV';
-        if (v.hdr_format.toLowerCase().includes('hdr10+')) return 'HDR10+';
-        if (v.hdr_format.toLowerCase().includes('hdr10')) return 'HDR10';
-        if (v.hdr_format.toLowerCase().includes('hlg')) return 'HLG';
-        return 'HDR';
+
+    const formats = [...new Set(video.flatMap(getTrackHDR))];
+    // DV first, then the base layer formats
+    formats.sort((a, b) => Number(b.startsWith('DV')) - Number(a.startsWith('DV')));
+    // HDR10+ already implies HDR10
+    const result = formats.includes('HDR10+') ? formats.filter((f) => f !== 'HDR10') : formats;
+    return result.join(' + ');
+}
+
+type AudioTrack = NonNullable<MediaInfoStructured['audio']>[number];
+
+/**
+ * Short audio codec name, e.g. "Atmos", "FLAC", "DD+"
+ */
+export function getAudioCodec(a: AudioTrack): string {
+    let label = '';
+
+    // Use commercial name if available (e.g., "Dolby Digital Plus with Dolby Atmos")
+    if (a.commercial_name?.toLowerCase().includes('atmos')) {
+        label = 'Atmos';
+    } else if (a.commercial_name?.toLowerCase().includes('truehd')) {
+        label = 'TrueHD';
+    } else if (a.commercial_name?.toLowerCase().includes('dts')) {
+        label = a.commercial_name.includes('HD') ? 'DTS-HD MA' : 'DTS';
+    } else if (a.format) {
+        // Simplify format names
+        const fmt = a.format.toUpperCase();
+        if (fmt.includes('E-AC-3') || fmt.includes('EAC3')) {
+            label = 'DD+';
+        } else if (fmt.includes('AC-3') || fmt === 'AC3') {
+            label = 'DD';
+        } else if (fmt.includes('AAC')) {
+            label = 'AAC';
+        } else if (fmt.includes('FLAC')) {
+            label = 'FLAC';
+        } else if (fmt.includes('OPUS')) {
+            label = 'Opus';
+        } else if (fmt.includes('TRUEHD')) {
+            label = 'TrueHD';
+        } else if (fmt.includes('DTS')) {
+            label = 'DTS';
+        } else {
+            label = a.format;
+        }
     }
 
-    const transfer = v.transfer_characteristics?.toLowerCase() ?? '';
-    if (transfer.includes('pq') || transfer.includes('smpte st 2084')) return 'HDR10';
-    if (transfer.includes('hlg')) return 'HLG';
+    return label;
+}
 
-    return '';
+/**
+ * Short audio track label, e.g. "Atmos 7.1", "FLAC 2.0", "DD+ 5.1"
+ */
+export function getAudioLabel(a: AudioTrack): string {
+    const codec = getAudioCodec(a);
+    const ch = parseChannels(a.channels);
+    return ch && codec ? `${codec} ${ch}` : codec;
 }
 
 /**
  * Get unique languages from text tracks
  */
-function getSubtitleLanguages(texts: MediaInfoStructured['text']): string[] {
+export function getSubtitleLanguages(texts: MediaInfoStructured['text']): string[] {
     if (!texts?.length) return [];
 
     const languages = new Set<string>();
@@ -284,7 +483,10 @@ export function generateSummary(structured: MediaInfoStructured): string {
         }
 
         // Resolution
-        const res = getResolution(v.width, v.height);
+        let res = getResolution(v.width, v.height);
+        if (res && /interlaced|mbaff|paff/i.test(v.scan_type ?? '')) {
+            res = res.replace(/p$/, 'i');
+        }
         if (res) videoParts.push(res);
 
         // HDR
@@ -301,43 +503,7 @@ export function generateSummary(structured: MediaInfoStructured): string {
         const audioFormats: string[] = [];
 
         for (const a of structured.audio) {
-            let audioDesc = '';
-
-            // Use commercial name if available (e.g., "Dolby Digital Plus with Dolby Atmos")
-            if (a.commercial_name?.toLowerCase().includes('atmos')) {
-                audioDesc = 'Atmos';
-            } else if (a.commercial_name?.toLowerCase().includes('truehd')) {
-                audioDesc = 'TrueHD';
-            } else if (a.commercial_name?.toLowerCase().includes('dts')) {
-                audioDesc = a.commercial_name.includes('HD') ? 'DTS-HD MA' : 'DTS';
-            } else if (a.format) {
-                // Simplify format names
-                const fmt = a.format.toUpperCase();
-                if (fmt.includes('E-AC-3') || fmt.includes('EAC3')) {
-                    audioDesc = 'DD+';
-                } else if (fmt.includes('AC-3') || fmt === 'AC3') {
-                    audioDesc = 'DD';
-                } else if (fmt.includes('AAC')) {
-                    audioDesc = 'AAC';
-                } else if (fmt.includes('FLAC')) {
-                    audioDesc = 'FLAC';
-                } else if (fmt.includes('OPUS')) {
-                    audioDesc = 'Opus';
-                } else if (fmt.includes('TRUEHD')) {
-                    audioDesc = 'TrueHD';
-                } else if (fmt.includes('DTS')) {
-                    audioDesc = 'DTS';
-                } else {
-                    audioDesc = a.format;
-                }
-            }
-
-            // Add channels
-            const ch = parseChannels(a.channels);
-            if (ch && audioDesc) {
-                audioDesc += ` ${ch}`;
-            }
-
+            const audioDesc = getAudioLabel(a);
             if (audioDesc && !audioFormats.includes(audioDesc)) {
                 audioFormats.push(audioDesc);
             }
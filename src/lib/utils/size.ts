@@ -0,0 +1,31 @@
+/**
+ * Byte size helpers shared by the site and the CLI
+ */
+import type { TorrentEntry } from '../content/schema';
+import { isPadFile } from './file-tree';
+
+/**
+ * Total size of a torrent from its file list (0 when sizes weren't stored)
+ * Padding files don't count, they're never on disk
+ */
+export function getTotalSize(files: TorrentEntry['files']): number {
+    return files.reduce((sum, f) => {
+        if (typeof f === 'string' || isPadFile(f.name)) return sum;
+        return sum + (f.size ?? 0);
+    }, 0);
+}
+
+/**
+ * Format a byte count with binary units (empty for unknown sizes)
+ */
+export function formatSize(bytes: number): string {
+    if (!bytes) return '';
+    const units = ['B', 'KiB', 'MiB', 'GiB', 'TiB'];
+    let size = bytes;
+    let unitIndex = 0;
+    while (size >= 1024 && unitIndex < units.length - 1) {
+        size /= 1024;
+        unitIndex++;
+    }
+    return `${size.toFixed(2)} ${units[unitIndex]}`;
+}
@@ -0,0 +1,20 @@
+import type { PageServerLoad } from './$types';
+import { getAllReleases } from '$lib/content/loader';
+import { getMediaFacets, type MediaFacets } from '$lib/content/facets';
+import { readStructuredMediaInfo } from '$lib/server/mediainfo';
+import type { MediaInfoStructured } from '$lib/utils/mediainfo-parser';
+
+// MediaInfo facets are computed once at build time; raw files aren't shipped to the home page
+export const load: PageServerLoad = async () => {
+    const facets: Record<string, MediaFacets> = {};
+
+    for (const release of getAllReleases()) {
+        // First MediaInfo of each torrent (episodes within a torrent are expected to match)
+        const structured = release.torrents
+            .map((t) => (t.mediainfo[0] ? readStructuredMediaInfo(t.mediainfo[0]) : null))
+            .filter((s): s is MediaInfoStructured => s !== null);
+        facets[release.slug] = getMediaFacets(structured);
+    }
+
+    return { facets };
+};
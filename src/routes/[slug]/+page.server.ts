@@ -1,7 +1,27 @@
 import type { PageServerLoad } from './$types';
+import { building } from '$app/environment';
 import { getAllReleases, getReleaseBySlug } from '$lib/content/loader';
+import type { Release } from '$lib/content/schema';
+import { lintMediaInfo, type MediaInfoLintInput } from '$lib/utils/mediainfo-lint';
+import { readStructuredMediaInfo } from '$lib/server/mediainfo';
 import { error } from '@sveltejs/kit';
 
+/**
+ * Warn (without failing the build) when episodes of a torrent have mismatched MediaInfo
+ */
+function warnMediaInfoLint(release: Release) {
+    for (const torrent of release.torrents) {
+        const inputs: MediaInfoLintInput[] = [];
+        for (const mi of torrent.mediainfo) {
+            const structured = readStructuredMediaInfo(mi);
+            if (structured) inputs.push({ filename: mi.filename, structured });
+        }
+        for (const issue of lintMediaInfo(inputs)) {
+            console.warn(`[mediainfo] ${release.slug} / ${torrent.name}: ${issue.filename}: ${issue.message}`);
+        }
+    }
+}
+
 export const load: PageServerLoad = async ({ params }) => {
     const release = getReleaseBySlug(params.slug);
 
@@ -11,8 +31,16 @@ export const load: PageServerLoad = async ({ params }) => {
         });
     }
 
+    if (building) warnMediaInfoLint(release);
+
+    // Structured here so the parsers don't ship to the client; first MediaInfo of each torrent
+    const comparison = release.torrents.map((torrent) =>
+        torrent.mediainfo[0] ? readStructuredMediaInfo(torrent.mediainfo[0]) : null
+    );
+
     return {
-        release
+        release,
+        comparison
     };
 };
 
@@ -0,0 +1,25 @@
+import type { PageServerLoad } from './$types';
+import { getTorrentsByGroup } from '$lib/content/loader';
+import { groups } from '$lib/config/groups';
+import { error } from '@sveltejs/kit';
+
+export const load: PageServerLoad = async ({ params }) => {
+    // Only canonical tags are prerendered (see entries), so aliases aren't resolved here
+    const group = groups.find((g) => g.tag === params.tag);
+
+    if (!group) {
+        throw error(404, {
+            message: 'Group not found'
+        });
+    }
+
+    return {
+        group,
+        torrents: getTorrentsByGroup(group.tag)
+    };
+};
+
+// Generate all group pages at build time
+export const entries = () => {
+    return groups.map(g => ({ tag: g.tag }));
+};
@@ -21,6 +21,9 @@ export const GET: RequestHandler = async ({ url }) => {
         <lastBuildDate>${new Date().toUTCString()}</lastBuildDate>
         ${releases
             .map((release) => {
+                // Original and alternative titles, so feed readers can match them too
+                const alsoKnownAs = [release.original_title, ...(release.aliases ?? [])]
+                    .filter((title, i, all) => title && title !== release.title && all.indexOf(title) === i);
                 return `
         <item>
             <title><![CDATA[${release.title}]]></title>
@@ -31,6 +34,7 @@ export const GET: RequestHandler = async ({ url }) => {
             <description><![CDATA[
                 <img src="${siteUrl}${release.poster}" alt="${release.title}" style="max-width: 200px; display: block; margin-bottom: 10px;" />
                 <p><strong>${release.title}</strong> (${release.year})</p>
+                ${alsoKnownAs.length ? `<p>Also known as: ${alsoKnownAs.join(' / ')}</p>` : ''}
                 <p>Type: ${release.media_type}</p>
                 
                 <h3>Releases</h3>
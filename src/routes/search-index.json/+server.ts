@@ -0,0 +1,10 @@
+import { json } from '@sveltejs/kit';
+import { getAllReleases } from '$lib/content/loader';
+import { buildSearchIndex } from '$lib/server/search-index';
+import type { RequestHandler } from './$types';
+
+export const prerender = true;
+
+export const GET: RequestHandler = async () => {
+    return json(buildSearchIndex(getAllReleases()));
+};